@@ -0,0 +1,112 @@
+import * as core from '@actions/core';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import {
+  buildUploadTargets,
+  findOptionalArtifacts,
+  hashArtifacts,
+  isUploadUnchanged,
+  parseArtifactsInput
+} from './artifacts';
+
+jest.mock('@actions/core');
+
+const mockedCore = core as jest.Mocked<typeof core>;
+
+describe('Optional Artifacts', () => {
+  const testDir = path.join(__dirname, '__test_optional_artifacts__');
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  describe('parseArtifactsInput', () => {
+    it('should accept names with or without the .json extension', () => {
+      expect(parseArtifactsInput('run_results.json, sources\nrun_results\n')).toEqual([
+        'run_results.json',
+        'sources.json'
+      ]);
+      expect(parseArtifactsInput('')).toEqual([]);
+    });
+
+    it('should reject unsupported and required artifacts', () => {
+      expect(() => parseArtifactsInput('graph.gpickle')).toThrow('unsupported artifact');
+      expect(() => parseArtifactsInput('manifest.json')).toThrow('always uploaded');
+    });
+  });
+
+  describe('findOptionalArtifacts', () => {
+    it('should skip missing optional artifacts with a warning', async () => {
+      await fs.mkdir(testDir, { recursive: true });
+      await fs.writeFile(path.join(testDir, 'run_results.json'), '{}');
+
+      const found = await findOptionalArtifacts(testDir, ['run_results.json', 'sources.json']);
+
+      expect(found).toEqual(['run_results.json']);
+      expect(mockedCore.warning).toHaveBeenCalledWith(expect.stringContaining('sources.json'));
+    });
+  });
+
+  describe('buildUploadTargets', () => {
+    it('should pair required and optional artifacts with their upload URLs', () => {
+      const targets = buildUploadTargets(
+        'target',
+        {
+          session_id: 'abc123',
+          manifest_upload_url: 'https://upload/manifest',
+          catalog_upload_url: 'https://upload/catalog',
+          artifact_upload_urls: { 'run_results.json': 'https://upload/run_results' }
+        },
+        ['run_results.json', 'sources.json']
+      );
+
+      expect(targets).toEqual([
+        {
+          name: 'manifest.json',
+          filePath: path.join('target', 'manifest.json'),
+          uploadUrl: 'https://upload/manifest'
+        },
+        {
+          name: 'catalog.json',
+          filePath: path.join('target', 'catalog.json'),
+          uploadUrl: 'https://upload/catalog'
+        },
+        {
+          name: 'run_results.json',
+          filePath: path.join('target', 'run_results.json'),
+          uploadUrl: 'https://upload/run_results'
+        }
+      ]);
+      expect(mockedCore.warning).toHaveBeenCalledWith(
+        expect.stringContaining('did not provide an upload URL for sources.json')
+      );
+    });
+  });
+
+  describe('hashArtifacts', () => {
+    it('should compute the SHA-256 digest of each artifact', async () => {
+      await fs.mkdir(testDir, { recursive: true });
+      await fs.writeFile(path.join(testDir, 'manifest.json'), '{}');
+
+      await expect(
+        hashArtifacts({ 'manifest.json': path.join(testDir, 'manifest.json') })
+      ).resolves.toEqual({
+        'manifest.json': '44136fa355b3678a1146ad16f7e8649e94fb4fc21fe77e8310c060f61caaff8a'
+      });
+    });
+  });
+
+  describe('isUploadUnchanged', () => {
+    const hashes = { 'manifest.json': 'aaa', 'catalog.json': 'bbb' };
+
+    it('should be unchanged when every artifact has the stored hash', () => {
+      expect(isUploadUnchanged(hashes, { ...hashes, 'run_results.json': 'ccc' })).toBe(true);
+    });
+
+    it('should be changed when any artifact differs or is not stored', () => {
+      expect(isUploadUnchanged(hashes, { ...hashes, 'catalog.json': 'other' })).toBe(false);
+      expect(isUploadUnchanged(hashes, { 'manifest.json': 'aaa' })).toBe(false);
+      expect(isUploadUnchanged(hashes, undefined)).toBe(false);
+    });
+  });
+});
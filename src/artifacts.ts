@@ -0,0 +1,150 @@
+import * as core from '@actions/core';
+import { createHash } from 'crypto';
+import { createReadStream, promises as fs } from 'fs';
+import * as path from 'path';
+import { pipeline } from 'stream/promises';
+import type { ArtifactUploadTarget, TouchSessionResponse } from './types';
+
+/**
+ * Artifacts that are always uploaded; their absence fails the action
+ */
+export const REQUIRED_ARTIFACTS = ['manifest.json', 'catalog.json'];
+
+/**
+ * Additional dbt artifacts that can be requested through the `artifacts` input
+ */
+export const OPTIONAL_ARTIFACTS = ['run_results.json', 'sources.json', 'semantic_manifest.json'];
+
+/**
+ * Parse the `artifacts` input into a list of optional artifact file names
+ * @param value - Comma or newline separated artifact names, with or without the .json extension
+ * @returns Unique artifact file names
+ * @throws Error if an artifact is not supported
+ */
+export function parseArtifactsInput(value: string): string[] {
+  const names = value
+    .split(/[,\n]/)
+    .map(name => name.trim())
+    .filter(name => name.length > 0)
+    .map(name => (name.endsWith('.json') ? name : `${name}.json`));
+
+  for (const name of names) {
+    if (REQUIRED_ARTIFACTS.includes(name)) {
+      throw new Error(`Input 'artifacts' must not list ${name}; it is always uploaded.`);
+    }
+    if (!OPTIONAL_ARTIFACTS.includes(name)) {
+      throw new Error(
+        `Input 'artifacts' contains unsupported artifact '${name}'. Supported artifacts: ${OPTIONAL_ARTIFACTS.join(', ')}.`
+      );
+    }
+  }
+
+  return [...new Set(names)];
+}
+
+/**
+ * Find which of the requested optional artifacts exist in the target directory.
+ * Missing optional artifacts are reported as warnings, not errors.
+ * @param dbtTargetPath - Path to the DBT target directory
+ * @param names - Requested optional artifact file names
+ * @returns The artifact file names that exist
+ */
+export async function findOptionalArtifacts(
+  dbtTargetPath: string,
+  names: string[]
+): Promise<string[]> {
+  const found: string[] = [];
+
+  for (const name of names) {
+    try {
+      await fs.access(path.join(dbtTargetPath, name));
+      found.push(name);
+    } catch (error) {
+      core.warning(
+        `[Skip] Optional artifact ${name} not found in ${dbtTargetPath} directory. It will not be uploaded.`
+      );
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Pair each artifact with the presigned URL returned by Recce Cloud
+ * @param dbtTargetPath - Path to the DBT target directory
+ * @param response - Response from touch-recce-session
+ * @param optionalArtifacts - Optional artifact file names present in the target directory
+ * @param overrides - Files to upload instead of the ones in the target directory, keyed by artifact name
+ * @returns Files to upload and their presigned URLs
+ */
+export function buildUploadTargets(
+  dbtTargetPath: string,
+  response: TouchSessionResponse,
+  optionalArtifacts: string[],
+  overrides: Record<string, string> = {}
+): ArtifactUploadTarget[] {
+  const filePath = (name: string): string => overrides[name] ?? path.join(dbtTargetPath, name);
+
+  const targets: ArtifactUploadTarget[] = [
+    {
+      name: 'manifest.json',
+      filePath: filePath('manifest.json'),
+      uploadUrl: response.manifest_upload_url
+    },
+    {
+      name: 'catalog.json',
+      filePath: filePath('catalog.json'),
+      uploadUrl: response.catalog_upload_url
+    }
+  ];
+
+  for (const name of optionalArtifacts) {
+    const uploadUrl = response.artifact_upload_urls?.[name];
+    if (!uploadUrl) {
+      core.warning(
+        `[Skip] Recce Cloud did not provide an upload URL for ${name}. It will not be uploaded.`
+      );
+      continue;
+    }
+    targets.push({ name, filePath: filePath(name), uploadUrl });
+  }
+
+  return targets;
+}
+
+/**
+ * Compute the SHA-256 digest of each artifact, as uploaded (before compression)
+ * @param files - Artifact file paths keyed by file name
+ * @returns Hex digests keyed by file name
+ */
+export async function hashArtifacts(
+  files: Record<string, string>
+): Promise<Record<string, string>> {
+  const hashes: Record<string, string> = {};
+
+  // Stream the files so that large manifests are never held in memory
+  for (const [name, filePath] of Object.entries(files)) {
+    const hash = createHash('sha256');
+    await pipeline(createReadStream(filePath), hash);
+    hashes[name] = hash.digest('hex');
+  }
+
+  return hashes;
+}
+
+/**
+ * Check whether Recce Cloud already stores every artifact with the same content
+ * @param hashes - Digests of the artifacts about to be uploaded
+ * @param storedHashes - Digests reported by Recce Cloud for the session, if any
+ * @returns True if all artifacts are unchanged since the last upload
+ */
+export function isUploadUnchanged(
+  hashes: Record<string, string>,
+  storedHashes?: Record<string, string>
+): boolean {
+  if (!storedHashes) {
+    return false;
+  }
+
+  return Object.entries(hashes).every(([name, hash]) => storedHashes[name] === hash);
+}
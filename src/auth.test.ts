@@ -0,0 +1,53 @@
+import * as core from '@actions/core';
+import { resolveAuth } from './auth';
+import type { ActionInputs } from './types';
+
+jest.mock('@actions/core');
+
+const mockedCore = core as jest.Mocked<typeof core>;
+
+describe('Recce Cloud Authentication', () => {
+  const inputs = {
+    github_token: 'github-token',
+    auth_mode: 'github_token',
+    oidc_audience: 'https://cloud.datarecce.io',
+    api_key: 'recce-api-key'
+  } as ActionInputs;
+
+  it('should forward the GitHub token by default', async () => {
+    await expect(resolveAuth(inputs)).resolves.toEqual({
+      mode: 'github_token',
+      token: 'github-token'
+    });
+    expect(mockedCore.setSecret).toHaveBeenCalledWith('github-token');
+  });
+
+  it('should use the API key in api_key mode', async () => {
+    await expect(resolveAuth({ ...inputs, auth_mode: 'api_key' })).resolves.toEqual({
+      mode: 'api_key',
+      token: 'recce-api-key'
+    });
+    expect(mockedCore.setSecret).toHaveBeenCalledWith('recce-api-key');
+  });
+
+  it('should request an OIDC ID token for the configured audience', async () => {
+    mockedCore.getIDToken.mockResolvedValue('oidc-token');
+
+    await expect(resolveAuth({ ...inputs, auth_mode: 'oidc' })).resolves.toEqual({
+      mode: 'oidc',
+      token: 'oidc-token'
+    });
+    expect(mockedCore.getIDToken).toHaveBeenCalledWith('https://cloud.datarecce.io');
+    expect(mockedCore.setSecret).toHaveBeenCalledWith('oidc-token');
+  });
+
+  it('should explain missing OIDC permissions', async () => {
+    mockedCore.getIDToken.mockRejectedValue(
+      new Error('Unable to get ACTIONS_ID_TOKEN_REQUEST_URL')
+    );
+
+    await expect(resolveAuth({ ...inputs, auth_mode: 'oidc' })).rejects.toThrow(
+      "Make sure the job has 'id-token: write' permission."
+    );
+  });
+});
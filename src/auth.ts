@@ -0,0 +1,38 @@
+import * as core from '@actions/core';
+import type { ActionInputs, ResolvedAuth } from './types';
+
+/**
+ * Resolve the bearer token sent to Recce Cloud for the configured auth mode.
+ * The token is registered as a secret so that it is masked in all logs.
+ * @param inputs - Action inputs
+ * @returns The auth mode and its token
+ * @throws Error if the token cannot be obtained
+ */
+export async function resolveAuth(inputs: ActionInputs): Promise<ResolvedAuth> {
+  let token: string;
+
+  switch (inputs.auth_mode) {
+    case 'oidc':
+      try {
+        token = await core.getIDToken(inputs.oidc_audience);
+      } catch (error) {
+        throw new Error(
+          `Failed to request an OIDC ID token for audience '${inputs.oidc_audience}': ${error instanceof Error ? error.message : String(error)}. Make sure the job has 'id-token: write' permission.`
+        );
+      }
+      break;
+
+    case 'api_key':
+      token = inputs.api_key;
+      break;
+
+    case 'github_token':
+      token = inputs.github_token;
+      break;
+  }
+
+  core.setSecret(token);
+  core.info(`[Auth] Authenticating to Recce Cloud with ${inputs.auth_mode}.`);
+
+  return { mode: inputs.auth_mode, token };
+}
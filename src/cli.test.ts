@@ -0,0 +1,180 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import {
+  buildActionEnvironment,
+  detectCiEnvironment,
+  parseCliArgs,
+  parseOutputFile,
+  readEnvInputs,
+  repositoryFromUrl
+} from './cli';
+
+jest.mock('@actions/core');
+
+describe('recce-cloud-upload CLI', () => {
+  const workDir = path.join(__dirname, '__test_cli__');
+
+  beforeEach(async () => {
+    await fs.mkdir(workDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  describe('parseCliArgs', () => {
+    it('should map flags to input names', () => {
+      expect(
+        parseCliArgs([
+          '--dbt-target-path',
+          'dbt/target',
+          '--api-key=secret',
+          '--dry-run',
+          '--no-compress-artifacts'
+        ])
+      ).toEqual({
+        values: {
+          dbt_target_path: 'dbt/target',
+          api_key: 'secret',
+          dry_run: 'true',
+          compress_artifacts: 'false'
+        },
+        help: false
+      });
+    });
+
+    it('should reject unknown options and missing values', () => {
+      expect(() => parseCliArgs(['--mode', 'publish'])).toThrow("Unknown option '--mode'");
+      expect(() => parseCliArgs(['--branch'])).toThrow('requires a value');
+      expect(() => parseCliArgs(['--no-branch'])).toThrow('cannot be negated');
+    });
+
+    it('should stop at --help', () => {
+      expect(parseCliArgs(['--help', '--unknown']).help).toBe(true);
+    });
+  });
+
+  it('should read RECCE_* environment variables', () => {
+    expect(
+      readEnvInputs({ RECCE_API_KEY: 'secret', RECCE_BRANCH: 'main', RECCE_DRY_RUN: '' })
+    ).toEqual({ api_key: 'secret', branch: 'main' });
+  });
+
+  it.each([
+    ['git@github.com:owner/repo.git', 'owner/repo'],
+    ['https://github.com/owner/repo.git', 'owner/repo'],
+    ['https://gitlab.com/group/repo', 'group/repo']
+  ])('should extract the repository from %s', (url, repository) => {
+    expect(repositoryFromUrl(url)).toBe(repository);
+  });
+
+  describe('detectCiEnvironment', () => {
+    it('should read GitLab merge request pipelines', () => {
+      expect(
+        detectCiEnvironment({
+          GITLAB_CI: 'true',
+          CI_PROJECT_PATH: 'group/repo',
+          CI_MERGE_REQUEST_IID: '12',
+          CI_MERGE_REQUEST_SOURCE_BRANCH_NAME: 'feature',
+          CI_MERGE_REQUEST_TARGET_BRANCH_NAME: 'main',
+          CI_COMMIT_SHA: 'abc123',
+          CI_PIPELINE_ID: '99'
+        })
+      ).toMatchObject({
+        provider: 'gitlab',
+        repository: 'group/repo',
+        branch: 'feature',
+        prNumber: 12,
+        headSha: 'abc123',
+        baseRef: 'main',
+        runId: '99'
+      });
+    });
+
+    it('should read the pull request number from CircleCI and Buildkite', () => {
+      expect(
+        detectCiEnvironment({
+          CIRCLECI: 'true',
+          CIRCLE_PULL_REQUEST: 'https://github.com/owner/repo/pull/34'
+        }).prNumber
+      ).toBe(34);
+      expect(
+        detectCiEnvironment({ BUILDKITE: 'true', BUILDKITE_PULL_REQUEST: 'false' }).prNumber
+      ).toBe(undefined);
+    });
+
+    it('should leave GitHub Actions runs to the action', () => {
+      expect(detectCiEnvironment({ GITHUB_ACTIONS: 'true', GITLAB_CI: 'true' })).toEqual({
+        provider: 'github'
+      });
+    });
+  });
+
+  describe('buildActionEnvironment', () => {
+    it('should describe a merge request as a pull_request event', async () => {
+      const env = await buildActionEnvironment(
+        {
+          provider: 'gitlab',
+          repository: 'group/repo',
+          branch: 'feature',
+          prNumber: 12,
+          headSha: 'abc123',
+          baseRef: 'main'
+        },
+        { api_key: 'secret' },
+        workDir
+      );
+
+      expect(env).toMatchObject({
+        INPUT_API_KEY: 'secret',
+        INPUT_AUTH_MODE: 'api_key',
+        INPUT_COMMENT_ON_PR: 'false',
+        GITHUB_REPOSITORY: 'group/repo',
+        GITHUB_EVENT_NAME: 'pull_request',
+        GITHUB_SHA: 'abc123'
+      });
+      expect(JSON.parse(await fs.readFile(env.GITHUB_EVENT_PATH, 'utf8'))).toEqual({
+        pull_request: { number: 12, head: { ref: 'feature', sha: 'abc123' }, base: { ref: 'main' } }
+      });
+    });
+
+    it('should reject repositories nested in a GitLab subgroup', async () => {
+      await expect(
+        buildActionEnvironment(
+          {
+            provider: 'gitlab',
+            repository: 'group/subgroup/repo',
+            branch: 'main',
+            headSha: 'abc123'
+          },
+          {},
+          workDir
+        )
+      ).rejects.toThrow("Repository 'group/subgroup/repo' is not of the form 'owner/repo'");
+    });
+
+    it('should update the base session for branch builds', async () => {
+      const env = await buildActionEnvironment(
+        { provider: 'local' },
+        { repository: 'owner/repo', branch: 'main', commit_sha: 'def456' },
+        workDir
+      );
+
+      expect(env).toMatchObject({ GITHUB_EVENT_NAME: 'push', GITHUB_REF: 'refs/heads/main' });
+    });
+
+    it('should ask for what it cannot detect', async () => {
+      await expect(
+        buildActionEnvironment({ provider: 'local' }, { branch: 'main' }, workDir)
+      ).rejects.toThrow('Cannot detect --repository, --commit-sha from the local environment');
+    });
+  });
+
+  it('should parse the outputs file written by the action', () => {
+    expect(
+      parseOutputFile(
+        'session_id<<ghadelimiter_1\nabc\nghadelimiter_1\nlineage_diff<<ghadelimiter_2\n{\n}\nghadelimiter_2\n'
+      )
+    ).toEqual({ session_id: 'abc', lineage_diff: '{\n}' });
+  });
+});
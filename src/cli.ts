@@ -0,0 +1,414 @@
+#!/usr/bin/env node
+/**
+ * recce-cloud-upload: run the Recce Cloud upload pipeline outside GitHub Actions.
+ *
+ * The action reads its inputs through @actions/core and the triggering event through
+ * github.context, both of which come from environment variables. The CLI translates flags,
+ * RECCE_* environment variables and the CI provider's environment into those variables,
+ * then runs the same pipeline as the action.
+ */
+import * as github from '@actions/github';
+import { Context } from '@actions/github/lib/context';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { run } from './main';
+import type { ActionInputs, CiEnvironment } from './types';
+
+/**
+ * Inputs accepted as --flags (with dashes) or RECCE_* environment variables.
+ * mode and handoff_artifact_name are left out: collect and publish only work in GitHub Actions.
+ */
+const CLI_INPUTS: Array<keyof ActionInputs> = [
+  'config_file',
+  'dbt_target_path',
+  'generate_artifacts',
+  'generate_command',
+  'api_host',
+  'web_host',
+  'github_token',
+  'auth_mode',
+  'oidc_audience',
+  'api_key',
+  'base_branch',
+  'base_branch_mismatch',
+  'validation_mode',
+  'compress_artifacts',
+  'skip_unchanged',
+  'dry_run',
+  'max_retries',
+  'retry_delay',
+  'artifacts',
+  'select',
+  'max_concurrency',
+  'base_target_path',
+  'redact_paths',
+  'redact_patterns',
+  'wait_for_ready',
+  'wait_timeout',
+  'comment_on_pr',
+  'report_path',
+  'pr_number'
+];
+
+/**
+ * Inputs that can be passed as switches (--dry-run, --no-dry-run)
+ */
+const BOOLEAN_INPUTS: Array<keyof ActionInputs> = [
+  'generate_artifacts',
+  'compress_artifacts',
+  'skip_unchanged',
+  'dry_run',
+  'wait_for_ready',
+  'comment_on_pr'
+];
+
+/**
+ * Flags describing the repository and commit, overriding what is detected from the CI provider
+ */
+const CONTEXT_FLAGS = ['repository', 'branch', 'commit_sha', 'base_ref', 'summary_file'];
+
+/**
+ * Help text printed by --help
+ */
+const USAGE = `Usage: recce-cloud-upload [options]
+
+Uploads dbt artifacts to Recce Cloud from GitHub Actions, GitLab CI, CircleCI,
+Buildkite or a local shell. Every action input is available as a flag or as a
+RECCE_<INPUT> environment variable, e.g. --dbt-target-path or RECCE_DBT_TARGET_PATH.
+
+Options:
+  --config-file <path>        YAML config file (default: .recce/cloud.yml)
+  --dbt-target-path <paths>   dbt target directories (default: target)
+  --api-key <key>             Recce Cloud API key (implies --auth-mode api_key)
+  --pr-number <number>        Create a PR session instead of updating the base session
+  --dry-run                   Verify the artifacts and print the planned requests
+  --report-path <path>        Write a JSON report with upload timings and sizes
+  --repository <owner/repo>   Repository (detected from the CI provider)
+  --branch <name>             Branch (detected from the CI provider)
+  --commit-sha <sha>          Commit SHA (detected from the CI provider)
+  --base-ref <name>           Target branch of the pull request
+  --summary-file <path>       Write the job summary (HTML) to this file
+  --help                      Show this help
+
+See the README for all inputs.`;
+
+/**
+ * Convert a flag or input name to its input name
+ * @param name - Flag name without leading dashes (e.g. 'dbt-target-path')
+ * @returns Input name (e.g. 'dbt_target_path')
+ */
+function toInputName(name: string): string {
+  return name.replace(/-/g, '_');
+}
+
+/**
+ * Parse command line flags into input values
+ * @param argv - Arguments after the script name
+ * @returns Input and context values keyed by input name, and whether help was requested
+ * @throws Error on unknown flags or missing values
+ */
+export function parseCliArgs(argv: string[]): { values: Record<string, string>; help: boolean } {
+  const values: Record<string, string> = {};
+  const known = [...CLI_INPUTS, ...CONTEXT_FLAGS] as string[];
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--help' || arg === '-h') {
+      return { values, help: true };
+    }
+
+    const match = /^--(no-)?([a-z][a-z0-9-]*)(?:=(.*))?$/s.exec(arg);
+    const name = match ? toInputName(match[2]) : undefined;
+    if (!match || !name || !known.includes(name)) {
+      throw new Error(`Unknown option '${arg}'. Run recce-cloud-upload --help for usage.`);
+    }
+
+    const isBoolean = (BOOLEAN_INPUTS as string[]).includes(name);
+    if (match[1] && !isBoolean) {
+      throw new Error(`Option '--${match[2]}' is not a switch and cannot be negated.`);
+    }
+
+    if (match[3] !== undefined) {
+      values[name] = match[3];
+    } else if (isBoolean) {
+      values[name] = match[1] ? 'false' : 'true';
+    } else if (i + 1 < argv.length && !argv[i + 1].startsWith('--')) {
+      values[name] = argv[++i];
+    } else {
+      throw new Error(`Option '--${match[2]}' requires a value.`);
+    }
+  }
+
+  return { values, help: false };
+}
+
+/**
+ * Read input values from RECCE_* environment variables
+ * @param env - Process environment
+ * @returns Input and context values keyed by input name
+ */
+export function readEnvInputs(env: NodeJS.ProcessEnv): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const name of [...CLI_INPUTS, ...CONTEXT_FLAGS]) {
+    const value = env[`RECCE_${name.toUpperCase()}`];
+    if (value !== undefined && value !== '') {
+      values[name] = value;
+    }
+  }
+  return values;
+}
+
+/**
+ * Extract 'owner/repo' from a git remote URL
+ * @param url - HTTPS or SSH remote URL (e.g. 'git@github.com:owner/repo.git')
+ * @returns The repository, or undefined if the URL has no owner and name
+ */
+export function repositoryFromUrl(url: string): string | undefined {
+  return /[/:]([^/:]+\/[^/]+?)(?:\.git)?\/?$/.exec(url)?.[1];
+}
+
+/**
+ * Parse a pull request number from a CI variable
+ * @param value - Number, or pull request URL ending in the number
+ * @returns The pull request number, or undefined if there is none
+ */
+function parsePrNumber(value: string | undefined): number | undefined {
+  const match = value ? /(\d+)\/?$/.exec(value) : null;
+  return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * Detect the repository, branch, commit and pull request from the CI provider's environment
+ * @param env - Process environment
+ * @returns What the CI provider exposes; fields it does not expose are undefined
+ */
+export function detectCiEnvironment(env: NodeJS.ProcessEnv): CiEnvironment {
+  if (env.GITHUB_ACTIONS === 'true') {
+    // The action reads the GitHub context itself
+    return { provider: 'github' };
+  }
+
+  if (env.GITLAB_CI === 'true') {
+    const mergeRequest = env.CI_MERGE_REQUEST_IID;
+    return {
+      provider: 'gitlab',
+      repository: env.CI_PROJECT_PATH,
+      branch: mergeRequest ? env.CI_MERGE_REQUEST_SOURCE_BRANCH_NAME : env.CI_COMMIT_BRANCH,
+      prNumber: parsePrNumber(mergeRequest),
+      headSha: env.CI_COMMIT_SHA,
+      baseRef: env.CI_MERGE_REQUEST_TARGET_BRANCH_NAME,
+      runId: env.CI_PIPELINE_ID,
+      serverUrl: env.CI_SERVER_URL,
+      workflow: env.CI_JOB_NAME,
+      actor: env.GITLAB_USER_LOGIN
+    };
+  }
+
+  if (env.CIRCLECI === 'true') {
+    return {
+      provider: 'circleci',
+      repository:
+        env.CIRCLE_PROJECT_USERNAME && env.CIRCLE_PROJECT_REPONAME
+          ? `${env.CIRCLE_PROJECT_USERNAME}/${env.CIRCLE_PROJECT_REPONAME}`
+          : undefined,
+      branch: env.CIRCLE_BRANCH,
+      prNumber: parsePrNumber(env.CIRCLE_PULL_REQUEST),
+      headSha: env.CIRCLE_SHA1,
+      runId: env.CIRCLE_BUILD_NUM,
+      workflow: env.CIRCLE_JOB,
+      actor: env.CIRCLE_USERNAME
+    };
+  }
+
+  if (env.BUILDKITE === 'true') {
+    const pullRequest = env.BUILDKITE_PULL_REQUEST;
+    return {
+      provider: 'buildkite',
+      repository: env.BUILDKITE_REPO ? repositoryFromUrl(env.BUILDKITE_REPO) : undefined,
+      branch: env.BUILDKITE_BRANCH,
+      prNumber: pullRequest && pullRequest !== 'false' ? parsePrNumber(pullRequest) : undefined,
+      headSha: env.BUILDKITE_COMMIT,
+      baseRef: env.BUILDKITE_PULL_REQUEST_BASE_BRANCH || undefined,
+      runId: env.BUILDKITE_BUILD_NUMBER,
+      workflow: env.BUILDKITE_PIPELINE_SLUG,
+      actor: env.BUILDKITE_BUILD_CREATOR
+    };
+  }
+
+  return { provider: 'local' };
+}
+
+/**
+ * Build the environment variables the action reads its inputs and GitHub context from
+ * @param ci - Detected CI environment
+ * @param values - Input and context values from flags and RECCE_* variables
+ * @param workDir - Directory for the event payload, job summary and outputs files
+ * @returns Environment variables to set before running the action
+ * @throws Error if the repository, branch or commit cannot be determined
+ */
+export async function buildActionEnvironment(
+  ci: CiEnvironment,
+  values: Record<string, string>,
+  workDir: string
+): Promise<Record<string, string>> {
+  const env: Record<string, string> = {};
+
+  const inputs = { ...values };
+  // Outside GitHub there is no GitHub token, and no pull request to comment on
+  if (ci.provider !== 'github') {
+    inputs.comment_on_pr ??= 'false';
+  }
+  if (inputs.api_key && !inputs.auth_mode) {
+    inputs.auth_mode = 'api_key';
+  }
+
+  for (const name of CLI_INPUTS) {
+    if (inputs[name] !== undefined) {
+      env[`INPUT_${name.toUpperCase()}`] = inputs[name];
+    }
+  }
+
+  // In GitHub Actions the job summary, outputs and event come from the runner
+  if (ci.provider === 'github') {
+    return env;
+  }
+
+  const summaryFile = values.summary_file
+    ? path.resolve(values.summary_file)
+    : path.join(workDir, 'summary.html');
+  const outputFile = path.join(workDir, 'outputs.txt');
+  await fs.writeFile(summaryFile, '');
+  await fs.writeFile(outputFile, '');
+  env.GITHUB_STEP_SUMMARY = summaryFile;
+  env.GITHUB_OUTPUT = outputFile;
+
+  const repository = values.repository ?? ci.repository;
+  const branch = values.branch ?? ci.branch;
+  const headSha = values.commit_sha ?? ci.headSha;
+  const baseRef = values.base_ref ?? ci.baseRef;
+
+  let prNumber = ci.prNumber;
+  if (inputs.pr_number) {
+    prNumber = Number(inputs.pr_number);
+    if (!Number.isInteger(prNumber) || prNumber <= 0) {
+      throw new Error(
+        `Option '--pr-number' must be a positive integer, got '${inputs.pr_number}'.`
+      );
+    }
+  }
+
+  const missing = [
+    [repository, '--repository'],
+    [branch, '--branch'],
+    [headSha, '--commit-sha']
+  ]
+    .filter(([value]) => !value)
+    .map(([, flag]) => flag);
+  if (missing.length > 0) {
+    throw new Error(
+      `Cannot detect ${missing.join(', ')} from the ${ci.provider} environment. Pass them as flags or RECCE_* variables.`
+    );
+  }
+
+  // The GitHub context keeps only the first two path segments, so a GitLab subgroup path
+  // (group/subgroup/project) would silently upload to the wrong repository
+  if (!/^[^/]+\/[^/]+$/.test(repository)) {
+    throw new Error(
+      `Repository '${repository}' is not of the form 'owner/repo'. Nested paths such as GitLab subgroups are not supported; pass '--repository owner/repo'.`
+    );
+  }
+
+  // Pull requests become pull_request events; everything else updates the base session like a push
+  const eventName = prNumber !== undefined ? 'pull_request' : 'push';
+  const payload =
+    prNumber !== undefined
+      ? {
+          pull_request: {
+            number: prNumber,
+            head: { ref: branch, sha: headSha },
+            base: baseRef ? { ref: baseRef } : undefined
+          }
+        }
+      : {};
+  const eventPath = path.join(workDir, 'event.json');
+  await fs.writeFile(eventPath, JSON.stringify(payload));
+  delete env.INPUT_PR_NUMBER;
+
+  Object.assign(env, {
+    GITHUB_REPOSITORY: repository,
+    GITHUB_REF: `refs/heads/${branch}`,
+    GITHUB_SHA: headSha,
+    GITHUB_EVENT_NAME: eventName,
+    GITHUB_EVENT_PATH: eventPath,
+    GITHUB_RUN_ID: ci.runId ?? '0',
+    GITHUB_RUN_ATTEMPT: '1',
+    GITHUB_WORKFLOW: ci.workflow ?? `recce-cloud-upload (${ci.provider})`,
+    GITHUB_ACTOR: ci.actor ?? os.userInfo().username,
+    GITHUB_SERVER_URL: ci.serverUrl ?? 'https://github.com',
+    GITHUB_WORKSPACE: process.cwd()
+  });
+
+  return env;
+}
+
+/**
+ * Parse the outputs file written by core.setOutput
+ * @param content - Contents of the GITHUB_OUTPUT file
+ * @returns Output values keyed by name
+ */
+export function parseOutputFile(content: string): Record<string, string> {
+  const outputs: Record<string, string> = {};
+  const pattern = /^(.+?)<<(\S+)\r?\n([\s\S]*?)\r?\n\2\r?\n/gm;
+  for (const match of content.matchAll(pattern)) {
+    outputs[match[1]] = match[3];
+  }
+  return outputs;
+}
+
+/**
+ * CLI entry point
+ * @param argv - Arguments after the script name
+ */
+export async function main(argv: string[]): Promise<void> {
+  let values: Record<string, string>;
+  try {
+    const parsed = parseCliArgs(argv);
+    if (parsed.help) {
+      console.log(USAGE);
+      return;
+    }
+    values = { ...readEnvInputs(process.env), ...parsed.values };
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exitCode = 2;
+    return;
+  }
+
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'recce-cli-'));
+  try {
+    const env = await buildActionEnvironment(detectCiEnvironment(process.env), values, workDir);
+    Object.assign(process.env, env);
+    // github.context was read from the environment when @actions/github was loaded
+    Object.assign(github.context, new Context());
+
+    await run();
+
+    if (env.GITHUB_OUTPUT) {
+      const outputs = parseOutputFile(await fs.readFile(env.GITHUB_OUTPUT, 'utf8'));
+      for (const [name, value] of Object.entries(outputs)) {
+        console.log(`${name}=${value}`);
+      }
+    }
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exitCode = 1;
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true });
+  }
+}
+
+// Run the CLI if this is the main module
+if (require.main === module) {
+  void main(process.argv.slice(2));
+}
@@ -0,0 +1,193 @@
+import { promises as fs } from 'fs';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import * as path from 'path';
+import {
+  checkCloseSessionResponse,
+  checkTouchSessionResponse,
+  RecceApiError,
+  RecceCloudClient
+} from './client';
+
+jest.mock('@actions/core');
+
+interface RecordedRequest {
+  method?: string;
+  url?: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+describe('Recce Cloud API Client', () => {
+  const testDir = path.join(__dirname, '__test_client__');
+  const requests: RecordedRequest[] = [];
+  let handler: (req: RecordedRequest, res: http.ServerResponse) => void;
+  let server: http.Server;
+  let apiHost: string;
+
+  const json = (res: http.ServerResponse, status: number, body: unknown): void => {
+    res.writeHead(status, { 'Content-Type': 'application/json', 'X-Request-Id': 'req-123' });
+    res.end(JSON.stringify(body));
+  };
+
+  const createClient = (): RecceCloudClient =>
+    new RecceCloudClient({
+      apiHost,
+      repository: 'owner/repo',
+      token: 'secret-token',
+      retryPolicy: { maxRetries: 1, initialDelayMs: 1 }
+    });
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk: Buffer) => (body += chunk.toString()));
+      req.on('end', () => {
+        const recorded = { method: req.method, url: req.url, headers: req.headers, body };
+        requests.push(recorded);
+        handler(recorded, res);
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    apiHost = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should touch a session with the bearer token', async () => {
+    handler = (_req, res) =>
+      json(res, 200, {
+        session_id: 'session-1',
+        manifest_upload_url: `${apiHost}/upload/manifest`,
+        catalog_upload_url: `${apiHost}/upload/catalog`
+      });
+
+    const response = await createClient().touchSession({
+      branch: 'feature',
+      adapter_type: 'postgres'
+    });
+
+    expect(response.session_id).toBe('session-1');
+    expect(requests[0]).toMatchObject({
+      method: 'POST',
+      url: '/api/v2/github/owner/repo/touch-recce-session',
+      headers: { authorization: 'Bearer secret-token' }
+    });
+    expect(JSON.parse(requests[0].body)).toEqual({ branch: 'feature', adapter_type: 'postgres' });
+  });
+
+  it('should reject responses that do not match the expected shape', async () => {
+    handler = (_req, res) => json(res, 200, { session_id: 'session-1', upload_compression: 'br' });
+
+    const error = await createClient()
+      .touchSession({ branch: 'feature', adapter_type: 'postgres' })
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(RecceApiError);
+    expect((error as RecceApiError).message).toContain(
+      "'manifest_upload_url' must be a non-empty string"
+    );
+    expect((error as RecceApiError).requestId).toBe('req-123');
+  });
+
+  it('should raise structured errors with status, endpoint and request ID', async () => {
+    handler = (_req, res) => json(res, 403, { detail: 'forbidden' });
+
+    const error = await createClient()
+      .completeUpload('session-1')
+      .catch((e: unknown) => e);
+
+    expect(error).toMatchObject({
+      name: 'RecceApiError',
+      statusCode: 403,
+      endpoint: '/api/v2/github/owner/repo/upload-completed',
+      requestId: 'req-123'
+    });
+    expect(requests).toHaveLength(1);
+  });
+
+  it('should retry transient failures', async () => {
+    let calls = 0;
+    handler = (_req, res) =>
+      ++calls === 1 ? json(res, 503, {}) : json(res, 200, { status: 'ready' });
+
+    await expect(createClient().getSessionStatus('session 1')).resolves.toEqual({
+      status: 'ready'
+    });
+    expect(requests.map(request => request.url)).toEqual([
+      '/api/v2/github/owner/repo/sessions/session%201/status',
+      '/api/v2/github/owner/repo/sessions/session%201/status'
+    ]);
+  });
+
+  it('should close a pull request session', async () => {
+    handler = (_req, res) =>
+      json(res, 200, { status: 'promoted', session_id: 'session-1', base_session_id: 'base-1' });
+
+    const request = {
+      branch: 'feature',
+      pr_number: 42,
+      merged: true,
+      promote_to_base: true,
+      head_sha: 'abc123',
+      base_ref: 'main'
+    };
+    await expect(createClient().closeSession(request)).resolves.toEqual({
+      status: 'promoted',
+      session_id: 'session-1',
+      base_session_id: 'base-1'
+    });
+    expect(requests[0]).toMatchObject({
+      method: 'POST',
+      url: '/api/v2/github/owner/repo/close-recce-session'
+    });
+    expect(JSON.parse(requests[0].body)).toEqual(request);
+    expect(checkCloseSessionResponse({ status: 'archived', base_session_id: 1 })).toEqual([
+      "'base_session_id' must be a string"
+    ]);
+  });
+
+  it('should upload artifacts to presigned URLs without the bearer token', async () => {
+    await fs.mkdir(testDir, { recursive: true });
+    await fs.writeFile(path.join(testDir, 'manifest.json'), '{"nodes":{}}');
+    handler = (_req, res) => {
+      res.writeHead(200);
+      res.end();
+    };
+
+    await createClient().uploadArtifact(
+      {
+        name: 'manifest.json',
+        filePath: path.join(testDir, 'manifest.json'),
+        uploadUrl: `${apiHost}/upload/manifest`
+      },
+      'none'
+    );
+
+    expect(requests[0]).toMatchObject({ method: 'PUT', body: '{"nodes":{}}' });
+    expect(requests[0].headers.authorization).toBeUndefined();
+  });
+
+  it('should accept optional fields in touch-recce-session responses', () => {
+    expect(
+      checkTouchSessionResponse({
+        session_id: 'session-1',
+        manifest_upload_url: 'https://s3/manifest',
+        catalog_upload_url: 'https://s3/catalog',
+        upload_compression: 'gzip',
+        artifact_upload_urls: { 'run_results.json': 'https://s3/run_results' }
+      })
+    ).toEqual([]);
+    expect(checkTouchSessionResponse([])).toEqual(['response body is not a JSON object']);
+  });
+});
@@ -0,0 +1,347 @@
+import type { OutgoingHttpHeaders } from 'http';
+import { HttpClient } from '@actions/http-client';
+import { HttpStatusError } from './http';
+import { withRetry } from './retry';
+import { uploadFile } from './upload';
+import type {
+  ArtifactUploadTarget,
+  CloseSessionRequest,
+  CloseSessionResponse,
+  RecceCloudClientOptions,
+  RetryPolicy,
+  SessionStatusResponse,
+  TouchSessionRequest,
+  TouchSessionResponse,
+  UploadCompletedRequest,
+  UploadCompression
+} from './types';
+
+/**
+ * Response header carrying the Recce Cloud request ID
+ */
+const REQUEST_ID_HEADER = 'x-request-id';
+
+/**
+ * Error raised when a Recce Cloud API request fails or returns an unexpected response
+ */
+export class RecceApiError extends HttpStatusError {
+  constructor(
+    message: string,
+    statusCode: number,
+    public readonly endpoint: string,
+    public readonly requestId?: string,
+    retryAfter?: string,
+    body?: string
+  ) {
+    super(message, statusCode, retryAfter, body);
+    this.name = 'RecceApiError';
+  }
+}
+
+/**
+ * Parsed response of a Recce Cloud API request
+ */
+interface ApiResponse {
+  statusCode: number;
+  requestId?: string;
+  body: unknown;
+}
+
+/**
+ * Check that a response body is a JSON object
+ * @param value - Parsed response body
+ * @returns True if the value is a non-null, non-array object
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validate a touch-recce-session response body
+ * @param body - Parsed response body
+ * @returns A list of problems; empty if the body is a valid TouchSessionResponse
+ */
+export function checkTouchSessionResponse(body: unknown): string[] {
+  if (!isObject(body)) {
+    return ['response body is not a JSON object'];
+  }
+
+  const problems: string[] = [];
+
+  for (const field of ['session_id', 'manifest_upload_url', 'catalog_upload_url']) {
+    if (typeof body[field] !== 'string' || body[field] === '') {
+      problems.push(`'${field}' must be a non-empty string`);
+    }
+  }
+
+  for (const field of ['base_manifest_url', 'base_catalog_url', 'head_sha']) {
+    if (body[field] != null && typeof body[field] !== 'string') {
+      problems.push(`'${field}' must be a string`);
+    }
+  }
+
+  const compression = body.upload_compression;
+  if (compression != null && compression !== 'gzip' && compression !== 'none') {
+    problems.push(`'upload_compression' must be 'gzip' or 'none'`);
+  }
+
+  const artifactUrls = body.artifact_upload_urls;
+  if (
+    artifactUrls != null &&
+    (!isObject(artifactUrls) || Object.values(artifactUrls).some(url => typeof url !== 'string'))
+  ) {
+    problems.push(`'artifact_upload_urls' must map artifact names to URLs`);
+  }
+
+  const artifactHashes = body.artifact_hashes;
+  if (
+    artifactHashes != null &&
+    (!isObject(artifactHashes) ||
+      Object.values(artifactHashes).some(hash => typeof hash !== 'string'))
+  ) {
+    problems.push(`'artifact_hashes' must map artifact names to hashes`);
+  }
+
+  return problems;
+}
+
+/**
+ * Validate a session status response body
+ * @param body - Parsed response body
+ * @returns A list of problems; empty if the body is a valid SessionStatusResponse
+ */
+export function checkSessionStatusResponse(body: unknown): string[] {
+  if (!isObject(body)) {
+    return ['response body is not a JSON object'];
+  }
+
+  return typeof body.status === 'string' && body.status !== ''
+    ? []
+    : [`'status' must be a non-empty string`];
+}
+
+/**
+ * Validate a close-recce-session response body
+ * @param body - Parsed response body
+ * @returns A list of problems; empty if the body is a valid CloseSessionResponse
+ */
+export function checkCloseSessionResponse(body: unknown): string[] {
+  const problems = checkSessionStatusResponse(body);
+  if (!isObject(body)) {
+    return problems;
+  }
+
+  for (const field of ['session_id', 'base_session_id']) {
+    if (body[field] != null && typeof body[field] !== 'string') {
+      problems.push(`'${field}' must be a string`);
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Client for the Recce Cloud GitHub integration API.
+ * Every request is retried on transient failures according to the retry policy.
+ */
+export class RecceCloudClient {
+  private readonly apiHost: string;
+  private readonly repository: string;
+  private readonly token: string;
+  private readonly retryPolicy: RetryPolicy;
+  private readonly transport: HttpClient;
+
+  /**
+   * @param options - API host, repository, token, retry policy and optional transport
+   */
+  constructor(options: RecceCloudClientOptions) {
+    this.apiHost = options.apiHost;
+    this.repository = options.repository;
+    this.token = options.token;
+    this.retryPolicy = options.retryPolicy;
+    // Retries are handled by withRetry so that a streamed upload is re-opened from disk on each attempt
+    this.transport =
+      options.transport ??
+      new HttpClient('recce-cloud-cicd-action', undefined, { allowRetries: false });
+  }
+
+  /**
+   * Build the URL of a repository-scoped API endpoint
+   * @param endpoint - Endpoint path below the repository (e.g., 'touch-recce-session')
+   * @returns Absolute endpoint URL
+   */
+  apiUrl(endpoint: string): string {
+    return `${this.apiHost}/api/v2/github/${this.repository}/${endpoint}`;
+  }
+
+  /**
+   * Create or touch the Recce session for a branch
+   * @param request - Request body
+   * @returns Session ID and presigned URLs for the artifacts
+   * @throws RecceApiError if the request fails or the response is invalid
+   */
+  async touchSession(request: TouchSessionRequest): Promise<TouchSessionResponse> {
+    const url = this.apiUrl('touch-recce-session');
+    const response = await withRetry('touch-recce-session', this.retryPolicy, () =>
+      this.request('POST', url, request, this.authHeaders())
+    );
+    return this.validate<TouchSessionResponse>(url, response, checkTouchSessionResponse);
+  }
+
+  /**
+   * Upload an artifact to its presigned URL
+   * @param target - Artifact file and presigned URL
+   * @param compression - Compression negotiated with Recce Cloud for this upload
+   * @returns Number of bytes sent, after compression
+   * @throws HttpStatusError if the upload fails
+   */
+  async uploadArtifact(
+    target: ArtifactUploadTarget,
+    compression: UploadCompression
+  ): Promise<number> {
+    return await withRetry(`Upload ${target.name}`, this.retryPolicy, () =>
+      uploadFile(this.transport, target.filePath, target.uploadUrl, compression)
+    );
+  }
+
+  /**
+   * Notify Recce Cloud that all artifacts of a session were uploaded
+   * @param sessionId - Session ID returned by touchSession
+   * @throws RecceApiError if the request fails
+   */
+  async completeUpload(sessionId: string): Promise<void> {
+    const url = this.apiUrl('upload-completed');
+    const body: UploadCompletedRequest = { session_id: sessionId };
+    await withRetry('upload-completed', this.retryPolicy, () =>
+      this.request('POST', url, body, this.authHeaders())
+    );
+  }
+
+  /**
+   * Get the processing status of a session
+   * @param sessionId - Session ID returned by touchSession
+   * @returns The session status
+   * @throws RecceApiError if the request fails or the response is invalid
+   */
+  async getSessionStatus(sessionId: string): Promise<SessionStatusResponse> {
+    const url = this.apiUrl(`sessions/${encodeURIComponent(sessionId)}/status`);
+    const response = await withRetry('session status', this.retryPolicy, () =>
+      this.request('GET', url, undefined, this.authHeaders())
+    );
+    return this.validate<SessionStatusResponse>(url, response, checkSessionStatusResponse);
+  }
+
+  /**
+   * Archive the session of a closed pull request, optionally promoting its artifacts to the base session
+   * @param request - Request body
+   * @returns What happened to the session
+   * @throws RecceApiError if the request fails or the response is invalid
+   */
+  async closeSession(request: CloseSessionRequest): Promise<CloseSessionResponse> {
+    const url = this.apiUrl('close-recce-session');
+    const response = await withRetry('close-recce-session', this.retryPolicy, () =>
+      this.request('POST', url, request, this.authHeaders())
+    );
+    return this.validate<CloseSessionResponse>(url, response, checkCloseSessionResponse);
+  }
+
+  /**
+   * Download a JSON artifact from a presigned URL returned by Recce Cloud
+   * @param name - Artifact name used in log messages
+   * @param url - Presigned download URL
+   * @returns The parsed artifact, or undefined if the response is empty
+   * @throws RecceApiError if the download fails
+   */
+  async downloadArtifact<T>(name: string, url: string): Promise<T | undefined> {
+    const response = await withRetry(`Download ${name}`, this.retryPolicy, () =>
+      this.request('GET', url, undefined, {})
+    );
+    return (response.body ?? undefined) as T | undefined;
+  }
+
+  /**
+   * Headers that authenticate a request to Recce Cloud
+   * @returns Authorization header
+   */
+  private authHeaders(): OutgoingHttpHeaders {
+    return { Authorization: `Bearer ${this.token}` };
+  }
+
+  /**
+   * Send a JSON request and parse the JSON response
+   * @param method - HTTP method
+   * @param url - Request URL
+   * @param body - Request body, serialized as JSON
+   * @param headers - Additional request headers
+   * @returns Status code, request ID and parsed body (null if the body is empty)
+   * @throws RecceApiError if the response status is not 2xx or the body is not valid JSON
+   */
+  private async request(
+    method: string,
+    url: string,
+    body: unknown,
+    headers: OutgoingHttpHeaders
+  ): Promise<ApiResponse> {
+    const endpoint = new URL(url).pathname;
+    const response = await this.transport.request(
+      method,
+      url,
+      body === undefined ? null : JSON.stringify(body),
+      { 'Content-Type': 'application/json', Accept: 'application/json', ...headers }
+    );
+    const statusCode = response.message.statusCode ?? 0;
+    const requestIdHeader = response.message.headers[REQUEST_ID_HEADER];
+    const requestId = Array.isArray(requestIdHeader) ? requestIdHeader[0] : requestIdHeader;
+    const responseBody = await response.readBody();
+
+    if (statusCode < 200 || statusCode >= 300) {
+      throw new RecceApiError(
+        `Request to ${endpoint} failed. HTTP Status: ${statusCode}${requestId ? ` (request ID ${requestId})` : ''}`,
+        statusCode,
+        endpoint,
+        requestId,
+        response.message.headers['retry-after'],
+        responseBody
+      );
+    }
+
+    try {
+      return {
+        statusCode,
+        requestId,
+        body: responseBody ? (JSON.parse(responseBody) as unknown) : null
+      };
+    } catch (error) {
+      throw new RecceApiError(
+        `Response of ${endpoint} is not valid JSON.`,
+        statusCode,
+        endpoint,
+        requestId,
+        undefined,
+        responseBody
+      );
+    }
+  }
+
+  /**
+   * Check a response body against its expected shape
+   * @param url - Request URL
+   * @param response - Parsed response
+   * @param check - Validator returning a list of problems
+   * @returns The response body with its expected type
+   * @throws RecceApiError if the body does not have the expected shape
+   */
+  private validate<T>(url: string, response: ApiResponse, check: (body: unknown) => string[]): T {
+    const problems = check(response.body);
+    if (problems.length > 0) {
+      const endpoint = new URL(url).pathname;
+      throw new RecceApiError(
+        `Unexpected response from ${endpoint}: ${problems.join('; ')}.`,
+        response.statusCode,
+        endpoint,
+        response.requestId
+      );
+    }
+    return response.body as T;
+  }
+}
@@ -0,0 +1,123 @@
+import * as github from '@actions/github';
+import { buildSessionComment, COMMENT_MARKER, upsertPullRequestComment } from './comment';
+import type { SessionCommentDetails } from './types';
+
+type Octokit = ReturnType<typeof github.getOctokit>;
+
+describe('PR Session Comment', () => {
+  const details: SessionCommentDetails = {
+    sessions: [
+      {
+        sessionUrl: 'https://cloud.datarecce.io/launch/abc123',
+        adapterType: 'postgres',
+        dbtVersion: '1.7.0'
+      }
+    ],
+    commitSha: '0123456789abcdef',
+    workflow: 'Validate PR Changes',
+    runNumber: 42,
+    runUrl: 'https://github.com/test-owner/test-repo/actions/runs/1',
+    updatedAt: '2024-01-01T00:00:00.000Z'
+  };
+
+  function createOctokit(existingComments: Array<{ id: number; body?: string }>): {
+    octokit: Octokit;
+    createComment: jest.Mock;
+    updateComment: jest.Mock;
+  } {
+    const createComment = jest.fn().mockResolvedValue({});
+    const updateComment = jest.fn().mockResolvedValue({});
+    const octokit = {
+      paginate: jest.fn().mockResolvedValue(existingComments),
+      rest: {
+        issues: {
+          listComments: jest.fn(),
+          createComment,
+          updateComment
+        }
+      }
+    };
+    return { octokit: octokit as unknown as Octokit, createComment, updateComment };
+  }
+
+  describe('buildSessionComment', () => {
+    it('should include the marker, session link and run metadata', () => {
+      const body = buildSessionComment(details);
+
+      expect(body.startsWith(COMMENT_MARKER)).toBe(true);
+      expect(body).toContain(
+        '[Launch Recce Cloud Session](https://cloud.datarecce.io/launch/abc123)'
+      );
+      expect(body).toContain('`postgres`');
+      expect(body).toContain('`1.7.0`');
+      expect(body).toContain('`0123456`');
+      expect(body).toContain(
+        '[Validate PR Changes #42](https://github.com/test-owner/test-repo/actions/runs/1)'
+      );
+    });
+
+    it('should list one row per project when uploading several projects', () => {
+      const body = buildSessionComment({
+        ...details,
+        sessions: [
+          {
+            project: 'projects/finance',
+            sessionUrl: 'https://cloud.datarecce.io/launch/s1',
+            adapterType: 'snowflake',
+            dbtVersion: '1.8.0'
+          },
+          {
+            project: 'projects/marketing',
+            sessionUrl: 'https://cloud.datarecce.io/launch/s2',
+            adapterType: 'bigquery',
+            dbtVersion: '1.8.0'
+          }
+        ]
+      });
+
+      expect(body).toContain(
+        '| `projects/finance` | [Launch](https://cloud.datarecce.io/launch/s1) | `snowflake` | `1.8.0` |'
+      );
+      expect(body).toContain(
+        '| `projects/marketing` | [Launch](https://cloud.datarecce.io/launch/s2) | `bigquery` | `1.8.0` |'
+      );
+    });
+  });
+
+  describe('upsertPullRequestComment', () => {
+    it('should create a comment when none exists', async () => {
+      const { octokit, createComment, updateComment } = createOctokit([
+        { id: 1, body: 'Unrelated comment' }
+      ]);
+
+      const result = await upsertPullRequestComment(octokit, 'owner', 'repo', 7, 'body');
+
+      expect(result).toBe('created');
+      expect(createComment).toHaveBeenCalledWith({
+        owner: 'owner',
+        repo: 'repo',
+        issue_number: 7,
+        body: 'body'
+      });
+      expect(updateComment).not.toHaveBeenCalled();
+    });
+
+    it('should update the existing comment instead of posting a duplicate', async () => {
+      const { octokit, createComment, updateComment } = createOctokit([
+        { id: 1, body: 'Unrelated comment' },
+        { id: 2, body: `${COMMENT_MARKER}\nold body` }
+      ]);
+
+      const result = await upsertPullRequestComment(octokit, 'owner', 'repo', 7, 'new body');
+
+      expect(result).toBe('updated');
+      expect(updateComment).toHaveBeenCalledWith({
+        owner: 'owner',
+        repo: 'repo',
+        comment_id: 2,
+        body: 'new body'
+      });
+      expect(createComment).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import * as github from '@actions/github';
+import type { SessionCommentDetails } from './types';
+
+/**
+ * Hidden marker used to find the comment posted by this action on a pull request
+ */
+export const COMMENT_MARKER = '<!-- recce-cloud-cicd-action:session-comment -->';
+
+type Octokit = ReturnType<typeof github.getOctokit>;
+
+/**
+ * Build the markdown body of the pull request session comment
+ * @param details - Session and run details to render
+ * @returns Comment body including the hidden marker
+ */
+export function buildSessionComment(details: SessionCommentDetails): string {
+  const runRows = [
+    ['Commit', `\`${details.commitSha.substring(0, 7)}\``],
+    ['Workflow run', `[${details.workflow} #${details.runNumber}](${details.runUrl})`],
+    ['Updated at', details.updatedAt]
+  ];
+
+  const [first] = details.sessions;
+  const sessionLines =
+    details.sessions.length === 1 && first.project === undefined
+      ? [
+          `[Launch Recce Cloud Session](${first.sessionUrl})`,
+          '',
+          '| | |',
+          '|---|---|',
+          `| Adapter type | \`${first.adapterType}\` |`,
+          `| dbt version | \`${first.dbtVersion}\` |`,
+          ...runRows.map(([label, value]) => `| ${label} | ${value} |`)
+        ]
+      : [
+          '| Project | Session | Adapter type | dbt version |',
+          '|---|---|---|---|',
+          ...details.sessions.map(
+            session =>
+              `| \`${session.project ?? '.'}\` | [Launch](${session.sessionUrl}) | \`${session.adapterType}\` | \`${session.dbtVersion}\` |`
+          ),
+          '',
+          '| | |',
+          '|---|---|',
+          ...runRows.map(([label, value]) => `| ${label} | ${value} |`)
+        ];
+
+  return [COMMENT_MARKER, '### Recce Cloud Session', '', ...sessionLines].join('\n');
+}
+
+/**
+ * Create the session comment on a pull request, or update it if one already exists
+ * @param octokit - Authenticated GitHub client
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param prNumber - Pull request number
+ * @param body - Comment body, which must contain COMMENT_MARKER
+ * @returns Whether the comment was created or updated
+ */
+export async function upsertPullRequestComment(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  prNumber: number,
+  body: string
+): Promise<'created' | 'updated'> {
+  const comments = await octokit.paginate(octokit.rest.issues.listComments, {
+    owner,
+    repo,
+    issue_number: prNumber,
+    per_page: 100
+  });
+
+  const existing = comments.find(comment => comment.body?.includes(COMMENT_MARKER));
+
+  if (existing) {
+    await octokit.rest.issues.updateComment({
+      owner,
+      repo,
+      comment_id: existing.id,
+      body
+    });
+    return 'updated';
+  }
+
+  await octokit.rest.issues.createComment({
+    owner,
+    repo,
+    issue_number: prNumber,
+    body
+  });
+  return 'created';
+}
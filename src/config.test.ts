@@ -0,0 +1,125 @@
+import * as core from '@actions/core';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { applyConfig, loadConfigFile, logEffectiveConfig, parseConfig } from './config';
+import type { ActionInputs } from './types';
+
+jest.mock('@actions/core');
+
+const mockedCore = core as jest.Mocked<typeof core>;
+
+describe('Config File', () => {
+  const testDir = path.join(__dirname, '__test_config__');
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should convert config values to input strings', () => {
+    expect(
+      parseConfig(
+        {
+          api_host: 'https://recce.example.com',
+          base_branch: ['main', 'release/*'],
+          compress_artifacts: false,
+          max_retries: 5,
+          validation_mode: 'strict',
+          report_path: null
+        },
+        'cloud.yml'
+      )
+    ).toEqual({
+      api_host: 'https://recce.example.com',
+      base_branch: 'main\nrelease/*',
+      compress_artifacts: 'false',
+      max_retries: '5',
+      validation_mode: 'strict'
+    });
+    expect(parseConfig(undefined, 'cloud.yml')).toEqual({});
+  });
+
+  it('should report every schema violation at once', () => {
+    expect(() =>
+      parseConfig(
+        { api_hots: 'x', api_key: 'secret', max_retries: -1, validation_mode: 'loud' },
+        'cloud.yml'
+      )
+    ).toThrow(
+      "Config file 'cloud.yml' is invalid:\n- unknown key 'api_hots'\n- 'api_key' is a secret; pass it as an input from a repository secret instead\n- 'max_retries' must be a non-negative integer\n- 'validation_mode' must be one of strict, warn, off"
+    );
+    expect(() => parseConfig(['main'], 'cloud.yml')).toThrow('must contain a mapping');
+  });
+
+  it('should only require the config file when it is set explicitly', async () => {
+    await expect(loadConfigFile('', testDir)).resolves.toEqual({});
+    expect(mockedCore.info).toHaveBeenCalledWith(
+      expect.stringContaining("No '.recce/cloud.yml' found")
+    );
+    await expect(loadConfigFile('missing.yml', testDir)).rejects.toThrow(
+      "Failed to read config file 'missing.yml'"
+    );
+
+    await fs.mkdir(path.join(testDir, '.recce'), { recursive: true });
+    await fs.writeFile(
+      path.join(testDir, '.recce', 'cloud.yml'),
+      'dbt_target_path:\n  - analytics/target\n  - finance/target\nwait_for_ready: true\n'
+    );
+    await expect(loadConfigFile('', testDir)).resolves.toEqual({
+      dbt_target_path: 'analytics/target\nfinance/target',
+      wait_for_ready: 'true'
+    });
+
+    await fs.writeFile(path.join(testDir, 'bad.yml'), 'api_host: [unclosed');
+    await expect(loadConfigFile('bad.yml', testDir)).rejects.toThrow('is not valid YAML');
+  });
+
+  it('should apply inputs over environment variables over the config file', () => {
+    const env: NodeJS.ProcessEnv = {
+      INPUT_API_HOST: 'https://input.example.com',
+      RECCE_API_HOST: 'https://env.example.com',
+      RECCE_WEB_HOST: 'https://env.example.com'
+    };
+
+    const sources = applyConfig(
+      {
+        api_host: 'https://config.example.com',
+        web_host: 'https://config.example.com',
+        base_branch: 'develop'
+      },
+      env
+    );
+
+    expect(env).toMatchObject({
+      INPUT_API_HOST: 'https://input.example.com',
+      INPUT_WEB_HOST: 'https://env.example.com',
+      INPUT_BASE_BRANCH: 'develop'
+    });
+    expect(env.INPUT_REPORT_PATH).toBeUndefined();
+    expect(sources).toMatchObject({
+      api_host: 'input',
+      web_host: 'env',
+      base_branch: 'config',
+      report_path: 'default'
+    });
+  });
+
+  it('should log the effective configuration with secrets redacted', () => {
+    const inputs = {
+      api_host: 'https://cloud.datarecce.io',
+      api_key: 'secret-key',
+      github_token: '',
+      redact_patterns: [/AKIA[0-9A-Z]{16}/]
+    } as unknown as ActionInputs;
+
+    logEffectiveConfig(inputs, { api_host: 'config' });
+
+    expect(mockedCore.startGroup).toHaveBeenCalledWith('Recce Cloud effective configuration');
+    expect(mockedCore.info.mock.calls.map(([line]) => line)).toEqual([
+      'api_host: https://cloud.datarecce.io (config file)',
+      'api_key: ***',
+      'github_token: (not set)',
+      'redact_patterns: AKIA[0-9A-Z]{16}'
+    ]);
+    expect(mockedCore.endGroup).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,261 @@
+import * as core from '@actions/core';
+import { promises as fs } from 'fs';
+import { load } from 'js-yaml';
+import * as path from 'path';
+import { REDACTED } from './plan';
+import type { ActionInputs, ConfigKeyType, InputSource } from './types';
+
+/**
+ * Config file read when the config_file input is not set
+ */
+export const DEFAULT_CONFIG_FILE = '.recce/cloud.yml';
+
+/**
+ * Keys allowed in the config file and the type of their values.
+ * Secrets and per-run inputs (mode, dry_run, pr_number) are left out on purpose.
+ */
+export const CONFIG_SCHEMA: Record<string, ConfigKeyType> = {
+  dbt_target_path: 'list',
+  generate_artifacts: 'boolean',
+  generate_command: 'string',
+  api_host: 'string',
+  web_host: 'string',
+  auth_mode: ['github_token', 'oidc', 'api_key'],
+  oidc_audience: 'string',
+  base_branch: 'list',
+  base_branch_mismatch: ['skip', 'fail'],
+  validation_mode: ['strict', 'warn', 'off'],
+  compress_artifacts: 'boolean',
+  skip_unchanged: 'boolean',
+  max_retries: 'integer',
+  retry_delay: 'integer',
+  artifacts: 'list',
+  select: 'list',
+  max_concurrency: 'integer',
+  base_target_path: 'string',
+  redact_paths: 'list',
+  redact_patterns: 'list',
+  wait_for_ready: 'boolean',
+  wait_timeout: 'integer',
+  comment_on_pr: 'boolean',
+  promote_on_merge: 'boolean',
+  report_path: 'string',
+  handoff_artifact_name: 'string'
+};
+
+/**
+ * Inputs that must never be stored in the config file
+ */
+const SECRET_INPUTS = ['github_token', 'api_key'];
+
+/**
+ * Check a config value against its schema type and convert it to an input string
+ * @param key - Config key
+ * @param value - Parsed YAML value
+ * @param type - Expected type
+ * @returns The value as an action input would carry it, or a problem description
+ */
+function toInputValue(
+  key: string,
+  value: unknown,
+  type: ConfigKeyType
+): { value: string } | { problem: string } {
+  if (Array.isArray(type)) {
+    return typeof value === 'string' && type.includes(value)
+      ? { value }
+      : { problem: `'${key}' must be one of ${type.join(', ')}` };
+  }
+
+  switch (type) {
+    case 'boolean':
+      return typeof value === 'boolean'
+        ? { value: String(value) }
+        : { problem: `'${key}' must be true or false` };
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value) && value >= 0
+        ? { value: String(value) }
+        : { problem: `'${key}' must be a non-negative integer` };
+    case 'list':
+      if (typeof value === 'string') {
+        return { value };
+      }
+      return Array.isArray(value) && value.every(item => typeof item === 'string')
+        ? { value: value.join('\n') }
+        : { problem: `'${key}' must be a string or a list of strings` };
+    default:
+      return typeof value === 'string' ? { value } : { problem: `'${key}' must be a string` };
+  }
+}
+
+/**
+ * Validate a parsed config file against CONFIG_SCHEMA
+ * @param config - Parsed YAML document
+ * @param source - Config file path used in error messages
+ * @returns Input values keyed by input name
+ * @throws Error listing every problem if the config is invalid
+ */
+export function parseConfig(config: unknown, source: string): Record<string, string> {
+  if (config == null) {
+    return {};
+  }
+  if (typeof config !== 'object' || Array.isArray(config)) {
+    throw new Error(`Config file '${source}' must contain a mapping of input names to values.`);
+  }
+
+  const values: Record<string, string> = {};
+  const problems: string[] = [];
+
+  for (const [key, value] of Object.entries(config)) {
+    const type = CONFIG_SCHEMA[key];
+    if (SECRET_INPUTS.includes(key)) {
+      problems.push(`'${key}' is a secret; pass it as an input from a repository secret instead`);
+    } else if (!type) {
+      problems.push(`unknown key '${key}'`);
+    } else if (value != null) {
+      const result = toInputValue(key, value, type);
+      if ('problem' in result) {
+        problems.push(result.problem);
+      } else {
+        values[key] = result.value;
+      }
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(
+      `Config file '${source}' is invalid:\n${problems.map(problem => `- ${problem}`).join('\n')}`
+    );
+  }
+  return values;
+}
+
+/**
+ * Read and validate the config file
+ * @param configFile - Path from the config_file input; empty to look for DEFAULT_CONFIG_FILE
+ * @param workspace - Directory that relative paths are resolved against
+ * @returns Input values keyed by input name; empty if the default config file does not exist
+ * @throws Error if the config file is invalid, or was set explicitly and does not exist
+ */
+export async function loadConfigFile(
+  configFile: string,
+  workspace: string
+): Promise<Record<string, string>> {
+  const source = configFile || DEFAULT_CONFIG_FILE;
+
+  let content: string;
+  try {
+    content = await fs.readFile(path.resolve(workspace, source), 'utf8');
+  } catch (error) {
+    if (!configFile && (error as NodeJS.ErrnoException).code === 'ENOENT') {
+      // Usually a job without a checkout; say so, since every setting then falls back to its default
+      core.info(
+        `[Config] No '${source}' found in '${workspace}'; using inputs, environment variables and defaults.`
+      );
+      return {};
+    }
+    throw new Error(
+      `Failed to read config file '${source}': ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = load(content, { filename: source });
+  } catch (error) {
+    throw new Error(
+      `Config file '${source}' is not valid YAML: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  core.info(`[Config] Loaded '${source}'.`);
+  return parseConfig(parsed, source);
+}
+
+/**
+ * Fill in action inputs that were not set from RECCE_* environment variables, then the config file.
+ * Precedence: action input (or CLI flag) > RECCE_<INPUT> environment variable > config file > default.
+ * Values are written to the INPUT_* variables that core.getInput reads.
+ * @param config - Values from the config file
+ * @param env - Environment to read and update
+ * @returns Where the value of each configurable input came from
+ */
+export function applyConfig(
+  config: Record<string, string>,
+  env: NodeJS.ProcessEnv = process.env
+): Record<string, InputSource> {
+  const sources: Record<string, InputSource> = {};
+
+  for (const name of Object.keys(CONFIG_SCHEMA)) {
+    const inputVariable = `INPUT_${name.toUpperCase()}`;
+    const envValue = env[`RECCE_${name.toUpperCase()}`];
+
+    if (env[inputVariable]) {
+      sources[name] = 'input';
+    } else if (envValue) {
+      env[inputVariable] = envValue;
+      sources[name] = 'env';
+    } else if (config[name] !== undefined) {
+      env[inputVariable] = config[name];
+      sources[name] = 'config';
+    } else {
+      sources[name] = 'default';
+    }
+  }
+
+  return sources;
+}
+
+/**
+ * Format a parsed input value for the configuration log
+ * @param value - Parsed input value
+ * @returns Display string
+ */
+function formatInputValue(value: unknown): string {
+  if (value instanceof RegExp) {
+    return value.source;
+  }
+  // Nested lists are select groups: selectors within a group intersect, groups are combined
+  if (Array.isArray(value)) {
+    return value
+      .map(item =>
+        Array.isArray(item) ? item.map(formatInputValue).join(',') : formatInputValue(item)
+      )
+      .join(value.some(Array.isArray) ? ' ' : ', ');
+  }
+  if (typeof value === 'object' && value !== null && 'raw' in value) {
+    return String(value.raw);
+  }
+  return value === undefined ? '' : String(value);
+}
+
+/**
+ * Describe where the value of an input came from
+ */
+const SOURCE_LABELS: Record<InputSource, string> = {
+  input: 'action input',
+  env: 'environment',
+  config: 'config file',
+  default: 'default'
+};
+
+/**
+ * Log the effective configuration in a collapsible group, with secrets redacted
+ * @param inputs - Parsed action inputs
+ * @param sources - Where each configurable input came from
+ */
+export function logEffectiveConfig(
+  inputs: ActionInputs,
+  sources: Record<string, InputSource>
+): void {
+  core.startGroup('Recce Cloud effective configuration');
+  for (const [name, value] of Object.entries(inputs)) {
+    const shown = SECRET_INPUTS.includes(name)
+      ? value
+        ? REDACTED
+        : '(not set)'
+      : formatInputValue(value);
+    const source = sources[name];
+    core.info(`${name}: ${shown}${source ? ` (${SOURCE_LABELS[source]})` : ''}`);
+  }
+  core.endGroup();
+}
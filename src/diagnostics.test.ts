@@ -0,0 +1,83 @@
+import { RecceApiError } from './client';
+import { classifyError, ManifestParseError, parseStorageError, redactUrl } from './diagnostics';
+import { HttpStatusError } from './http';
+
+jest.mock('@actions/core');
+
+describe('Failure Diagnostics', () => {
+  const apiError = (statusCode: number): RecceApiError =>
+    new RecceApiError('Request failed', statusCode, '/api/v1/touch-recce-session', 'req-1');
+
+  const storageError = (statusCode: number, code: string, message: string): HttpStatusError =>
+    new HttpStatusError(
+      'Failed to upload file',
+      statusCode,
+      undefined,
+      `<?xml version="1.0"?><Error><Code>${code}</Code><Message>${message}</Message></Error>`
+    );
+
+  it.each([
+    [401, 'auth_failed'],
+    [403, 'permission_denied'],
+    [404, 'app_not_installed'],
+    [413, 'payload_too_large'],
+    [429, 'rate_limited'],
+    [503, 'server_error'],
+    [200, 'invalid_response'],
+    [418, 'unknown']
+  ])('should classify Recce Cloud HTTP %i as %s', (statusCode, reason) => {
+    const diagnosis = classifyError(apiError(statusCode));
+
+    expect(diagnosis.reason).toBe(reason);
+    expect(diagnosis.detail).toBe(
+      `HTTP ${statusCode} from /api/v1/touch-recce-session (request ID req-1)`
+    );
+  });
+
+  it('should suggest remediation for the auth mode in use', () => {
+    expect(classifyError(apiError(401), 'oidc').remediation.join(' ')).toContain('id-token: write');
+    expect(classifyError(apiError(401), 'api_key').remediation.join(' ')).toContain('api_key');
+  });
+
+  it('should recognize expired presigned URLs from the storage error body', () => {
+    expect(classifyError(storageError(403, 'AccessDenied', 'Request has expired')).reason).toBe(
+      'presigned_url_expired'
+    );
+    expect(classifyError(storageError(400, 'ExpiredToken', 'Token expired')).reason).toBe(
+      'presigned_url_expired'
+    );
+  });
+
+  it('should report other storage errors without the request details', () => {
+    const diagnosis = classifyError(
+      storageError(403, 'SignatureDoesNotMatch', 'The signature does not match')
+    );
+
+    expect(diagnosis.reason).toBe('upload_rejected');
+    expect(diagnosis.detail).toBe(
+      'HTTP 403, storage error SignatureDoesNotMatch: The signature does not match'
+    );
+  });
+
+  it('should classify network errors and manifest parse failures', () => {
+    const networkError = Object.assign(new Error('getaddrinfo ENOTFOUND'), { code: 'ENOTFOUND' });
+
+    expect(classifyError(networkError).reason).toBe('network_error');
+    expect(classifyError(new ManifestParseError('bad manifest')).reason).toBe('invalid_manifest');
+    expect(classifyError(new Error('something else')).reason).toBe('unknown');
+  });
+
+  it('should strip signatures from presigned URLs', () => {
+    expect(
+      redactUrl(
+        'https://bucket.s3.amazonaws.com/manifest.json?X-Amz-Signature=secret&X-Amz-Expires=3600'
+      )
+    ).toBe('https://bucket.s3.amazonaws.com/manifest.json?[REDACTED]');
+    expect(redactUrl('not a url')).toBe('[REDACTED]');
+  });
+
+  it('should ignore bodies that are not storage errors', () => {
+    expect(parseStorageError('{"detail":"nope"}')).toBeUndefined();
+    expect(parseStorageError(undefined)).toBeUndefined();
+  });
+});
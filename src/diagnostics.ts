@@ -0,0 +1,316 @@
+import * as core from '@actions/core';
+import { RecceApiError } from './client';
+import { HttpStatusError } from './http';
+import { isNetworkError } from './retry';
+import type { AuthMode, ErrorContext, FailureDiagnosis, FailureReason } from './types';
+
+/**
+ * README section listing every failure reason
+ */
+const TROUBLESHOOTING_URL = 'https://github.com/DataRecce/recce-cloud-cicd-action#failure-reasons';
+
+/**
+ * README section on authentication problems
+ */
+const AUTHENTICATION_URL =
+  'https://github.com/DataRecce/recce-cloud-cicd-action#authentication-issues';
+
+/**
+ * Storage error codes meaning the presigned URL is no longer valid
+ */
+const EXPIRED_STORAGE_CODES = ['ExpiredToken', 'TokenRefreshRequired', 'RequestTimeTooSkewed'];
+
+/**
+ * Error raised when manifest.json cannot be parsed or lacks required metadata
+ */
+export class ManifestParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ManifestParseError';
+  }
+}
+
+/**
+ * Error raised when one or more projects failed, carrying the value of the failure_reason output
+ */
+export class ActionFailureError extends Error {
+  constructor(
+    message: string,
+    public readonly failureReason: string
+  ) {
+    super(message);
+    this.name = 'ActionFailureError';
+  }
+}
+
+/**
+ * Remove the query string (and with it any signature) from a URL so it can be logged
+ * @param url - URL, possibly presigned
+ * @returns The URL with its query string replaced by a placeholder and without fragment
+ */
+export function redactUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.origin}${parsed.pathname}${parsed.search ? '?[REDACTED]' : ''}`;
+  } catch (error) {
+    return '[REDACTED]';
+  }
+}
+
+/**
+ * Extract the error code and message from an S3-style XML error body
+ * @param body - Response body of a failed storage request
+ * @returns The storage error code and message, if the body is an XML error
+ */
+export function parseStorageError(body?: string): { code: string; message?: string } | undefined {
+  const code = body?.match(/<Code>([^<]+)<\/Code>/)?.[1];
+  if (!code) {
+    return undefined;
+  }
+  return { code, message: body?.match(/<Message>([^<]+)<\/Message>/)?.[1] };
+}
+
+/**
+ * Steps that fix an authentication failure for each auth mode
+ */
+const AUTH_REMEDIATION: Record<AuthMode, string[]> = {
+  github_token: [
+    'Make sure the Recce Cloud GitHub App is installed on this repository.',
+    'Pass a token through `github_token` or the `GITHUB_TOKEN` environment variable; it defaults to `${{ github.token }}`.'
+  ],
+  oidc: [
+    'Grant the job `id-token: write` permission so it can request an OIDC token.',
+    'Check that `oidc_audience` matches the audience configured in Recce Cloud.'
+  ],
+  api_key: [
+    'Check that the secret passed as `api_key` is set in this repository and has not been revoked.'
+  ]
+};
+
+/**
+ * Build a diagnosis
+ * @param reason - Failure reason
+ * @param title - One-line description
+ * @param remediation - Steps that usually fix the failure
+ * @param detail - Extra details safe to show
+ * @param docsUrl - Documentation link
+ * @returns The diagnosis
+ */
+function diagnose(
+  reason: FailureReason,
+  title: string,
+  remediation: string[],
+  detail?: string,
+  docsUrl = TROUBLESHOOTING_URL
+): FailureDiagnosis {
+  return { reason, title, detail, remediation, docsUrl };
+}
+
+/**
+ * Classify a failed Recce Cloud API request
+ * @param error - Error raised by RecceCloudClient
+ * @param authMode - How the action authenticated to Recce Cloud
+ * @returns The diagnosis
+ */
+function classifyApiError(error: RecceApiError, authMode?: AuthMode): FailureDiagnosis {
+  const detail = `HTTP ${error.statusCode} from ${error.endpoint}${error.requestId ? ` (request ID ${error.requestId})` : ''}`;
+  const { statusCode } = error;
+
+  if (statusCode >= 200 && statusCode < 300) {
+    return diagnose(
+      'invalid_response',
+      'Recce Cloud returned a response the action does not understand',
+      ['Check that `api_host` points to Recce Cloud.', 'Update the action to the latest version.'],
+      detail
+    );
+  }
+  if (statusCode === 401) {
+    return diagnose(
+      'auth_failed',
+      'Recce Cloud rejected the credentials',
+      AUTH_REMEDIATION[authMode ?? 'github_token'],
+      detail,
+      AUTHENTICATION_URL
+    );
+  }
+  if (statusCode === 403) {
+    return diagnose(
+      'permission_denied',
+      'The credentials are not allowed to update sessions of this repository',
+      [
+        'Check that this repository is connected to your Recce Cloud organization.',
+        'For `api_key`, check that the key belongs to that organization.'
+      ],
+      detail,
+      AUTHENTICATION_URL
+    );
+  }
+  if (statusCode === 404) {
+    return diagnose(
+      'app_not_installed',
+      'Recce Cloud does not know this repository',
+      [
+        'Install the Recce Cloud GitHub App on this repository.',
+        'Connect the repository to Recce Cloud.',
+        'Check that `api_host` points to Recce Cloud.'
+      ],
+      detail,
+      AUTHENTICATION_URL
+    );
+  }
+  if (statusCode === 413) {
+    return diagnose(
+      'payload_too_large',
+      'The request is too large for Recce Cloud',
+      ['Keep `compress_artifacts` enabled.'],
+      detail
+    );
+  }
+  if (statusCode === 429) {
+    return diagnose(
+      'rate_limited',
+      'Recce Cloud is rate limiting requests',
+      ['Re-run the workflow later.', 'Lower `max_concurrency` to send fewer requests at once.'],
+      detail
+    );
+  }
+  if (statusCode >= 500) {
+    return diagnose(
+      'server_error',
+      'Recce Cloud failed to handle the request',
+      ['Re-run the workflow later.', 'Contact Recce support with the request ID if it persists.'],
+      detail
+    );
+  }
+  return diagnose('unknown', 'Recce Cloud rejected the request', [], detail);
+}
+
+/**
+ * Classify a failed upload to a presigned storage URL
+ * @param error - Error raised by uploadFile
+ * @returns The diagnosis
+ */
+function classifyStorageError(error: HttpStatusError): FailureDiagnosis {
+  const storageError = parseStorageError(error.body);
+  const detail = storageError
+    ? `HTTP ${error.statusCode}, storage error ${storageError.code}${storageError.message ? `: ${storageError.message}` : ''}`
+    : `HTTP ${error.statusCode}`;
+
+  if (
+    storageError &&
+    (EXPIRED_STORAGE_CODES.includes(storageError.code) ||
+      (storageError.code === 'AccessDenied' && /expired/i.test(storageError.message ?? '')))
+  ) {
+    return diagnose(
+      'presigned_url_expired',
+      'The presigned upload URL expired before the upload finished',
+      [
+        'Re-run the workflow to get fresh upload URLs.',
+        'Keep `compress_artifacts` enabled and use `redact_paths` to drop large fields such as `compiled_code`, so uploads finish sooner.',
+        'Lower `max_concurrency` if several large projects are uploaded at once.'
+      ],
+      detail
+    );
+  }
+  if (error.statusCode === 413 || storageError?.code === 'EntityTooLarge') {
+    return diagnose(
+      'payload_too_large',
+      'An artifact is larger than the storage allows',
+      [
+        'Keep `compress_artifacts` enabled.',
+        'Use `redact_paths` to drop large fields such as `compiled_code` from manifest.json.'
+      ],
+      detail
+    );
+  }
+  if (error.statusCode === 429 || error.statusCode >= 500) {
+    return diagnose(
+      error.statusCode === 429 ? 'rate_limited' : 'server_error',
+      'The artifact storage is unavailable',
+      ['Re-run the workflow later.'],
+      detail
+    );
+  }
+  return diagnose(
+    'upload_rejected',
+    'The artifact storage rejected the upload',
+    [
+      'Re-run the workflow to get fresh upload URLs.',
+      'Make sure no proxy between the runner and the storage modifies request headers.'
+    ],
+    detail
+  );
+}
+
+/**
+ * Map an error to a failure reason, a human-readable title and remediation steps
+ * @param error - Error that failed the action or a project
+ * @param authMode - How the action authenticated to Recce Cloud
+ * @returns The diagnosis
+ */
+export function classifyError(error: unknown, authMode?: AuthMode): FailureDiagnosis {
+  if (error instanceof RecceApiError) {
+    return classifyApiError(error, authMode);
+  }
+  if (error instanceof HttpStatusError) {
+    return classifyStorageError(error);
+  }
+  if (isNetworkError(error)) {
+    return diagnose(
+      'network_error',
+      'The runner could not reach Recce Cloud',
+      [
+        'Re-run the workflow; the action already retried the request.',
+        'On self-hosted runners, allow outbound HTTPS to `api_host` and the artifact storage.'
+      ],
+      String((error as { code?: unknown }).code)
+    );
+  }
+  if (error instanceof ManifestParseError) {
+    return diagnose(
+      'invalid_manifest',
+      'manifest.json could not be read',
+      [
+        'Run `dbt docs generate` (or `dbt build`) to produce a complete manifest.json.',
+        'Check that `dbt_target_path` points to the dbt target directory.'
+      ],
+      error.message
+    );
+  }
+  return diagnose('unknown', 'The action failed', [
+    'Check the error message above and the workflow logs.'
+  ]);
+}
+
+/**
+ * Write a failure, its diagnosis and context to the job summary
+ * @param message - What the action was doing when it failed
+ * @param diagnosis - Classified failure
+ * @param context - Error context, if any
+ */
+export async function reportFailure(
+  message: string,
+  diagnosis: FailureDiagnosis,
+  context?: ErrorContext
+): Promise<void> {
+  core.error(`[Error] ${diagnosis.title} (${diagnosis.reason}).`);
+  for (const step of diagnosis.remediation) {
+    core.error(`[Error] ${step}`);
+  }
+
+  core.summary
+    .addHeading('Recce Cloud CI/CD Action Error', 3)
+    .addRaw(message)
+    .addHeading(`${diagnosis.title} (<code>${diagnosis.reason}</code>)`, 4);
+  if (diagnosis.detail) {
+    core.summary.addCodeBlock(diagnosis.detail);
+  }
+  if (diagnosis.remediation.length > 0) {
+    core.summary.addList(diagnosis.remediation);
+  }
+  core.summary.addLink('Troubleshooting guide', diagnosis.docsUrl);
+  if (context) {
+    core.summary.addHeading('Context', 4).addCodeBlock(JSON.stringify(context, null, 2), 'json');
+  }
+  await core.summary.write();
+}
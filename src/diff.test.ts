@@ -0,0 +1,92 @@
+import { diffManifests, renderLineageDiff, summarizeLineageDiff } from './diff';
+import type { DbtCatalog, DbtManifest, DbtManifestNode } from './types';
+
+describe('Lineage Diff', () => {
+  const model = (name: string, checksum: string, parents: string[] = []): DbtManifestNode => ({
+    unique_id: `model.jaffle.${name}`,
+    resource_type: 'model',
+    name,
+    checksum: { name: 'sha256', checksum },
+    depends_on: { nodes: parents }
+  });
+
+  const manifest = (nodes: DbtManifestNode[]): DbtManifest => ({
+    metadata: { adapter_type: 'postgres', dbt_version: '1.8.0' },
+    nodes: Object.fromEntries(nodes.map(node => [node.unique_id as string, node]))
+  });
+
+  const catalog = (columns: Record<string, string>): DbtCatalog => ({
+    metadata: { dbt_schema_version: 'https://schemas.getdbt.com/dbt/catalog/v1.json' },
+    nodes: {
+      'model.jaffle.customers': {
+        columns: Object.fromEntries(
+          Object.entries(columns).map(([name, type]) => [name, { name, type }])
+        )
+      }
+    }
+  });
+
+  const base = manifest([
+    model('stg_customers', 'a'),
+    model('customers', 'b', ['model.jaffle.stg_customers']),
+    model('legacy', 'c')
+  ]);
+
+  const current = manifest([
+    model('stg_customers', 'a2'),
+    model('customers', 'b', ['model.jaffle.stg_customers']),
+    model('orders', 'd'),
+    model('revenue', 'e', ['model.jaffle.customers']),
+    {
+      unique_id: 'test.jaffle.not_null_customers_id',
+      resource_type: 'test',
+      depends_on: { nodes: ['model.jaffle.customers'] }
+    }
+  ]);
+
+  it('should report added, removed, modified and impacted models', () => {
+    expect(diffManifests(base, current)).toEqual({
+      added: ['model.jaffle.orders', 'model.jaffle.revenue'],
+      removed: ['model.jaffle.legacy'],
+      modified: ['model.jaffle.stg_customers'],
+      column_changes: [],
+      impacted: ['model.jaffle.customers']
+    });
+  });
+
+  it('should compare catalog columns case-insensitively', () => {
+    const diff = diffManifests(
+      base,
+      current,
+      catalog({ ID: 'integer', name: 'text', legacy_flag: 'boolean' }),
+      catalog({ id: 'bigint', name: 'text', email: 'text' })
+    );
+
+    expect(diff.column_changes).toEqual([
+      {
+        node: 'model.jaffle.customers',
+        added: ['email'],
+        removed: ['legacy_flag'],
+        type_changed: [{ column: 'id', base_type: 'integer', current_type: 'bigint' }]
+      }
+    ]);
+  });
+
+  it('should render an escaped table and a summary', () => {
+    const diff = diffManifests(
+      base,
+      manifest([...Object.values(base.nodes ?? {}), model('<x>', 'f')])
+    );
+
+    expect(summarizeLineageDiff(diff)).toBe(
+      '1 added, 0 removed, 0 modified, 0 with column changes, 0 impacted downstream'
+    );
+    expect(renderLineageDiff(diff)).toContain('<code>model.jaffle.&lt;x&gt;</code>');
+  });
+
+  it('should note when nothing changed', () => {
+    expect(renderLineageDiff(diffManifests(base, base))).toBe(
+      '<p>No model changes compared to the base manifest.</p>'
+    );
+  });
+});
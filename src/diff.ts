@@ -0,0 +1,237 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { ColumnChange, DbtCatalog, DbtManifest, DbtManifestNode, LineageDiff } from './types';
+
+/**
+ * Maximum number of rows rendered per change type in the job summary
+ */
+const MAX_RENDERED_ROWS = 50;
+
+/**
+ * Read the manifest and, if present, the catalog of a dbt target directory
+ * @param dbtTargetPath - Path to the DBT target directory
+ * @returns Parsed manifest.json and catalog.json (undefined if the catalog is missing)
+ * @throws Error if manifest.json is missing or either file is not valid JSON
+ */
+export async function readLineageArtifacts(
+  dbtTargetPath: string
+): Promise<{ manifest: DbtManifest; catalog?: DbtCatalog }> {
+  const manifest = JSON.parse(
+    await fs.readFile(path.join(dbtTargetPath, 'manifest.json'), 'utf8')
+  ) as DbtManifest;
+
+  let catalog: DbtCatalog | undefined;
+  try {
+    catalog = JSON.parse(
+      await fs.readFile(path.join(dbtTargetPath, 'catalog.json'), 'utf8')
+    ) as DbtCatalog;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw error;
+    }
+  }
+
+  return { manifest, catalog };
+}
+
+/**
+ * Select the models of a manifest
+ * @param manifest - Parsed manifest.json
+ * @returns Models keyed by unique ID
+ */
+function getModels(manifest: DbtManifest): Map<string, DbtManifestNode> {
+  return new Map(
+    Object.entries(manifest.nodes ?? {}).filter(([, node]) => node.resource_type === 'model')
+  );
+}
+
+/**
+ * Compare the columns of a node between two catalogs
+ * @param uniqueId - Node unique ID
+ * @param baseCatalog - Base catalog.json
+ * @param currentCatalog - Current catalog.json
+ * @returns The column changes, or undefined if the columns are unchanged or unknown
+ */
+function diffColumns(
+  uniqueId: string,
+  baseCatalog: DbtCatalog,
+  currentCatalog: DbtCatalog
+): ColumnChange | undefined {
+  const baseColumns = baseCatalog.nodes?.[uniqueId]?.columns;
+  const currentColumns = currentCatalog.nodes?.[uniqueId]?.columns;
+
+  if (!baseColumns || !currentColumns) {
+    return undefined;
+  }
+
+  // Column names are case-insensitive in most warehouses
+  const baseTypes = new Map(Object.values(baseColumns).map(c => [c.name.toLowerCase(), c.type]));
+  const currentTypes = new Map(
+    Object.values(currentColumns).map(c => [c.name.toLowerCase(), c.type])
+  );
+
+  const change: ColumnChange = {
+    node: uniqueId,
+    added: [...currentTypes.keys()].filter(column => !baseTypes.has(column)),
+    removed: [...baseTypes.keys()].filter(column => !currentTypes.has(column)),
+    type_changed: []
+  };
+
+  for (const [column, currentType] of currentTypes) {
+    const baseType = baseTypes.get(column);
+    if (baseType !== undefined && baseType !== currentType) {
+      change.type_changed.push({ column, base_type: baseType, current_type: currentType });
+    }
+  }
+
+  const hasChanges =
+    change.added.length > 0 || change.removed.length > 0 || change.type_changed.length > 0;
+  return hasChanges ? change : undefined;
+}
+
+/**
+ * Find every node downstream of the given nodes, following depends_on in the manifest
+ * @param manifest - Parsed manifest.json
+ * @param roots - Unique IDs to start from
+ * @returns Downstream unique IDs (tests excluded), not including the roots
+ */
+function findDownstream(manifest: DbtManifest, roots: string[]): string[] {
+  const children = new Map<string, string[]>();
+  for (const [uniqueId, node] of Object.entries(manifest.nodes ?? {})) {
+    if (node.resource_type === 'test') {
+      continue;
+    }
+    for (const parent of node.depends_on?.nodes ?? []) {
+      const siblings = children.get(parent);
+      if (siblings) {
+        siblings.push(uniqueId);
+      } else {
+        children.set(parent, [uniqueId]);
+      }
+    }
+  }
+
+  const visited = new Set<string>(roots);
+  const queue = [...roots];
+  const downstream: string[] = [];
+
+  // Walk the queue by index; shift() would make the traversal quadratic on large manifests
+  for (let index = 0; index < queue.length; index++) {
+    for (const child of children.get(queue[index]) ?? []) {
+      if (!visited.has(child)) {
+        visited.add(child);
+        downstream.push(child);
+        queue.push(child);
+      }
+    }
+  }
+
+  return downstream.sort();
+}
+
+/**
+ * Compare the models of the base and current manifests
+ * @param baseManifest - Manifest of the base branch
+ * @param currentManifest - Manifest of the current branch
+ * @param baseCatalog - Optional catalog of the base branch, used for column changes
+ * @param currentCatalog - Optional catalog of the current branch, used for column changes
+ * @returns Added, removed and modified models, column changes and impacted downstream nodes
+ */
+export function diffManifests(
+  baseManifest: DbtManifest,
+  currentManifest: DbtManifest,
+  baseCatalog?: DbtCatalog,
+  currentCatalog?: DbtCatalog
+): LineageDiff {
+  const baseModels = getModels(baseManifest);
+  const currentModels = getModels(currentManifest);
+
+  const added = [...currentModels.keys()].filter(id => !baseModels.has(id)).sort();
+  const removed = [...baseModels.keys()].filter(id => !currentModels.has(id)).sort();
+  const modified = [...currentModels.entries()]
+    .filter(([id, node]) => {
+      const baseNode = baseModels.get(id);
+      return baseNode !== undefined && baseNode.checksum?.checksum !== node.checksum?.checksum;
+    })
+    .map(([id]) => id)
+    .sort();
+
+  const columnChanges: ColumnChange[] = [];
+  if (baseCatalog && currentCatalog) {
+    for (const id of [...currentModels.keys()].filter(id => baseModels.has(id)).sort()) {
+      const change = diffColumns(id, baseCatalog, currentCatalog);
+      if (change) {
+        columnChanges.push(change);
+      }
+    }
+  }
+
+  const changed = [...new Set([...added, ...modified, ...columnChanges.map(c => c.node)])];
+  const impacted = findDownstream(currentManifest, changed).filter(id => !changed.includes(id));
+
+  return { added, removed, modified, column_changes: columnChanges, impacted };
+}
+
+/**
+ * Escape text for use in HTML
+ * @param text - Raw text
+ * @returns Escaped text
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Build a one-line summary of a lineage diff
+ * @param diff - Lineage diff
+ * @returns Summary of the number of nodes per change type
+ */
+export function summarizeLineageDiff(diff: LineageDiff): string {
+  return `${diff.added.length} added, ${diff.removed.length} removed, ${diff.modified.length} modified, ${diff.column_changes.length} with column changes, ${diff.impacted.length} impacted downstream`;
+}
+
+/**
+ * Render a lineage diff as an HTML table for the job summary
+ * @param diff - Lineage diff
+ * @returns HTML table, or a short note when nothing changed
+ */
+export function renderLineageDiff(diff: LineageDiff): string {
+  const columnDetails = (change: ColumnChange): string =>
+    [
+      ...change.added.map(column => `+ ${column}`),
+      ...change.removed.map(column => `- ${column}`),
+      ...change.type_changed.map(c => `~ ${c.column}: ${c.base_type} → ${c.current_type}`)
+    ].join(', ');
+
+  const groups: Array<[string, Array<[string, string]>]> = [
+    ['Added', diff.added.map(id => [id, ''])],
+    ['Removed', diff.removed.map(id => [id, ''])],
+    ['Modified', diff.modified.map(id => [id, 'SQL or config changed'])],
+    ['Columns', diff.column_changes.map(change => [change.node, columnDetails(change)])],
+    ['Impacted', diff.impacted.map(id => [id, 'Downstream of a change'])]
+  ];
+
+  const rows: string[] = [];
+  for (const [label, entries] of groups) {
+    for (const [node, details] of entries.slice(0, MAX_RENDERED_ROWS)) {
+      rows.push(
+        `<tr><td>${label}</td><td><code>${escapeHtml(node)}</code></td><td>${escapeHtml(details)}</td></tr>`
+      );
+    }
+    if (entries.length > MAX_RENDERED_ROWS) {
+      rows.push(
+        `<tr><td>${label}</td><td colspan="2">… and ${entries.length - MAX_RENDERED_ROWS} more</td></tr>`
+      );
+    }
+  }
+
+  if (rows.length === 0) {
+    return '<p>No model changes compared to the base manifest.</p>';
+  }
+
+  return `<table><tr><th>Change</th><th>Node</th><th>Details</th></tr>${rows.join('')}</table>`;
+}
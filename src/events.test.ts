@@ -0,0 +1,208 @@
+import type { Context } from '@actions/github/lib/context';
+import {
+  branchFromRef,
+  isBaseBranch,
+  parseBranchPatterns,
+  resolveDispatchedPullRequest,
+  resolveEvent
+} from './events';
+import type { ActionInputs } from './types';
+
+describe('Event Resolution', () => {
+  const inputs: ActionInputs = {
+    dbt_target_path: 'target',
+    api_host: 'https://cloud.datarecce.io',
+    web_host: 'https://cloud.datarecce.io',
+    github_token: 'test-token',
+    base_branch: 'main',
+    base_branch_mismatch: 'skip',
+    comment_on_pr: true
+  };
+
+  function createContext(overrides: Partial<Context>): Context {
+    return {
+      eventName: 'push',
+      ref: 'refs/heads/main',
+      sha: 'context-sha',
+      payload: {},
+      ...overrides
+    } as Context;
+  }
+
+  it('should extract branch names from branch refs only', () => {
+    expect(branchFromRef('refs/heads/feature/my-branch')).toBe('feature/my-branch');
+    expect(branchFromRef('refs/tags/v1.0.0')).toBeUndefined();
+  });
+
+  it.each(['pull_request', 'pull_request_target'])(
+    'should resolve %s to a PR session',
+    eventName => {
+      const context = createContext({
+        eventName,
+        ref: 'refs/pull/123/merge',
+        payload: {
+          pull_request: {
+            number: 123,
+            head: { ref: 'feature-branch', sha: 'head-sha' },
+            base: { ref: 'main', sha: 'base-sha' }
+          }
+        }
+      });
+
+      expect(resolveEvent(context, inputs)).toEqual({
+        eventName,
+        sessionType: 'pr',
+        branch: 'feature-branch',
+        prNumber: 123,
+        headSha: 'head-sha',
+        baseRef: 'main',
+        baseSha: 'base-sha'
+      });
+    }
+  );
+
+  it('should mark closed pull requests and whether they were merged', () => {
+    const payload = (merged: boolean): Record<string, unknown> => ({
+      action: 'closed',
+      pull_request: {
+        number: 123,
+        merged,
+        merge_commit_sha: merged ? 'merge-sha' : null,
+        head: { ref: 'feature-branch', sha: 'head-sha' },
+        base: { ref: 'main' }
+      }
+    });
+
+    expect(
+      resolveEvent(createContext({ eventName: 'pull_request', payload: payload(true) }), inputs)
+        .closed
+    ).toEqual({ merged: true, mergeCommitSha: 'merge-sha' });
+    expect(
+      resolveEvent(createContext({ eventName: 'pull_request', payload: payload(false) }), inputs)
+        .closed
+    ).toEqual({ merged: false, mergeCommitSha: undefined });
+  });
+
+  it('should resolve merge_group to a PR session on the merge queue branch', () => {
+    const context = createContext({
+      eventName: 'merge_group',
+      payload: {
+        merge_group: {
+          head_ref: 'refs/heads/gh-readonly-queue/main/pr-42-0123abcd',
+          head_sha: 'queue-sha',
+          base_ref: 'refs/heads/main',
+          base_sha: 'main-sha'
+        }
+      }
+    });
+
+    expect(resolveEvent(context, inputs)).toEqual({
+      eventName: 'merge_group',
+      sessionType: 'pr',
+      branch: 'gh-readonly-queue/main/pr-42-0123abcd',
+      prNumber: 42,
+      headSha: 'queue-sha',
+      baseRef: 'main',
+      baseSha: 'main-sha'
+    });
+  });
+
+  it('should resolve workflow_dispatch with pr_number to a PR session', () => {
+    const context = createContext({
+      eventName: 'workflow_dispatch',
+      ref: 'refs/heads/feature-branch'
+    });
+
+    const event = resolveEvent(context, { ...inputs, pr_number: 7 });
+
+    expect(event.sessionType).toBe('pr');
+    expect(event.prNumber).toBe(7);
+    expect(event.branch).toBe('feature-branch');
+  });
+
+  describe('Dispatched Pull Requests', () => {
+    const event = resolveEvent(
+      createContext({ eventName: 'workflow_dispatch', ref: 'refs/heads/feature-branch' }),
+      { ...inputs, pr_number: 7 }
+    );
+    const pullRequest = {
+      number: 7,
+      headRef: 'feature-branch',
+      headSha: event.headSha,
+      headRepository: 'owner/repo',
+      baseRef: 'main',
+      baseSha: 'base-sha'
+    };
+
+    it('should take the base of the pull request', () => {
+      expect(resolveDispatchedPullRequest(event, pullRequest, 'owner/repo')).toMatchObject({
+        branch: 'feature-branch',
+        prNumber: 7,
+        baseRef: 'main',
+        baseSha: 'base-sha'
+      });
+    });
+
+    it.each([
+      ['another branch', { ...event, branch: 'main' }, 'owner/repo', "from branch 'main'"],
+      ['a fork branch of the same name', event, 'fork/repo', "from branch 'feature-branch'"],
+      ['an outdated commit', { ...event, headSha: 'old-sha' }, 'owner/repo', 'at commit old-sha']
+    ])('should fail when dispatched from %s', (_case, dispatched, headRepository, message) => {
+      expect(() =>
+        resolveDispatchedPullRequest(dispatched, { ...pullRequest, headRepository }, 'owner/repo')
+      ).toThrow(message);
+    });
+  });
+
+  it.each(['push', 'schedule', 'workflow_dispatch'])(
+    'should resolve %s without a PR number to a base session',
+    eventName => {
+      const event = resolveEvent(createContext({ eventName }), inputs);
+
+      expect(event.sessionType).toBe('base');
+      expect(event.branch).toBe('main');
+      expect(event.prNumber).toBeUndefined();
+    }
+  );
+
+  it('should fail for base sessions triggered from a tag', () => {
+    const context = createContext({ ref: 'refs/tags/v1.0.0' });
+
+    expect(() => resolveEvent(context, inputs)).toThrow('is not a branch');
+  });
+
+  it('should fail loudly on unsupported events', () => {
+    const context = createContext({ eventName: 'issue_comment' });
+
+    expect(() => resolveEvent(context, inputs)).toThrow("Unsupported event 'issue_comment'");
+  });
+
+  describe('Base Branch Matching', () => {
+    it('should parse comma and newline separated branch lists', () => {
+      expect(parseBranchPatterns('main, develop\nrelease/*\n')).toEqual([
+        'main',
+        'develop',
+        'release/*'
+      ]);
+    });
+
+    it('should match exact branch names', () => {
+      expect(isBaseBranch('main', 'main')).toBe(true);
+      expect(isBaseBranch('main-backup', 'main')).toBe(false);
+      expect(isBaseBranch('develop', 'main,develop')).toBe(true);
+    });
+
+    it('should match glob patterns', () => {
+      expect(isBaseBranch('release/1.0', 'release/*')).toBe(true);
+      expect(isBaseBranch('release/1.0/hotfix', 'release/*')).toBe(false);
+      expect(isBaseBranch('release/1.0/hotfix', 'release/**')).toBe(true);
+      expect(isBaseBranch('v1', 'v?')).toBe(true);
+      expect(isBaseBranch('feature/main', 'main')).toBe(false);
+    });
+
+    it('should treat regex characters in patterns literally', () => {
+      expect(isBaseBranch('release.1', 'release.1')).toBe(true);
+      expect(isBaseBranch('releasex1', 'release.1')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,234 @@
+import type { Context } from '@actions/github/lib/context';
+import type {
+  ActionInputs,
+  DispatchedPullRequest,
+  MergeGroupContext,
+  PullRequestContext,
+  ResolvedEvent
+} from './types';
+
+/**
+ * GitHub events the action knows how to map to a Recce session
+ */
+export const SUPPORTED_EVENTS = [
+  'pull_request',
+  'pull_request_target',
+  'merge_group',
+  'workflow_dispatch',
+  'push',
+  'schedule'
+];
+
+/**
+ * Extract the branch name from a fully qualified git ref
+ * @param ref - Git ref (e.g., 'refs/heads/main')
+ * @returns The branch name, or undefined if the ref is not a branch ref
+ */
+export function branchFromRef(ref: string): string | undefined {
+  if (!ref.startsWith('refs/heads/')) {
+    return undefined;
+  }
+  return ref.substring('refs/heads/'.length);
+}
+
+/**
+ * Split a branch list input into individual patterns
+ * @param value - Comma or newline separated branch names or glob patterns
+ * @returns Trimmed, non-empty patterns
+ */
+export function parseBranchPatterns(value: string): string[] {
+  return value
+    .split(/[,\n]/)
+    .map(pattern => pattern.trim())
+    .filter(pattern => pattern.length > 0);
+}
+
+/**
+ * Convert a branch glob pattern into a regular expression.
+ * `*` matches within a path segment, `**` matches across segments and `?` matches one character.
+ * @param pattern - Branch glob pattern (e.g., 'release/*')
+ * @returns Anchored regular expression
+ */
+function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      source += '.*';
+      i++;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Check whether a branch matches any of the configured base branch patterns
+ * @param branch - Branch name
+ * @param baseBranch - The base_branch input, a comma or newline separated list of names or globs
+ * @returns True if the branch is a base branch
+ */
+export function isBaseBranch(branch: string, baseBranch: string): boolean {
+  return parseBranchPatterns(baseBranch).some(pattern => globToRegExp(pattern).test(branch));
+}
+
+/**
+ * Resolve a branch name from the workflow ref, failing for tags and other refs
+ * @param context - GitHub context
+ * @returns The branch name
+ * @throws Error if the workflow was not triggered from a branch
+ */
+function requireBranch(context: Context): string {
+  const branch = branchFromRef(context.ref);
+  if (!branch) {
+    throw new Error(
+      `Event '${context.eventName}' was triggered from '${context.ref}', which is not a branch. Recce sessions can only be created for branches.`
+    );
+  }
+  return branch;
+}
+
+/**
+ * Resolve a pull request event into a PR session
+ * @param context - GitHub context for a pull_request or pull_request_target event
+ * @returns The resolved PR session event, marked closed for 'closed' actions
+ */
+function resolvePullRequest(context: Context): ResolvedEvent {
+  const payload = context.payload as PullRequestContext;
+
+  if (!payload.pull_request) {
+    throw new Error(`Event '${context.eventName}' payload does not contain a pull request.`);
+  }
+
+  return {
+    eventName: context.eventName,
+    sessionType: 'pr',
+    branch: payload.pull_request.head.ref,
+    prNumber: payload.pull_request.number,
+    headSha: payload.pull_request.head.sha ?? context.sha,
+    baseRef: payload.pull_request.base?.ref,
+    baseSha: payload.pull_request.base?.sha,
+    closed:
+      payload.action === 'closed'
+        ? {
+            merged: payload.pull_request.merged === true,
+            mergeCommitSha: payload.pull_request.merge_commit_sha ?? undefined
+          }
+        : undefined
+  };
+}
+
+/**
+ * Resolve a merge queue event into a PR session for the queued pull request
+ * @param context - GitHub context for a merge_group event
+ * @returns The resolved PR session event
+ */
+function resolveMergeGroup(context: Context): ResolvedEvent {
+  const payload = context.payload as MergeGroupContext;
+  const headRef = payload.merge_group?.head_ref;
+  const branch = headRef ? branchFromRef(headRef) : undefined;
+
+  if (!branch) {
+    throw new Error('Event merge_group payload does not contain a merge queue head ref.');
+  }
+
+  // Merge queue branches are named 'gh-readonly-queue/<base>/pr-<number>-<sha>'
+  const match = /\/pr-(\d+)-[0-9a-f]+$/.exec(branch);
+  if (!match) {
+    throw new Error(`Cannot determine the pull request number from merge queue ref '${headRef}'.`);
+  }
+
+  return {
+    eventName: context.eventName,
+    sessionType: 'pr',
+    branch,
+    prNumber: Number(match[1]),
+    headSha: payload.merge_group.head_sha ?? context.sha,
+    baseRef: payload.merge_group.base_ref
+      ? (branchFromRef(payload.merge_group.base_ref) ?? payload.merge_group.base_ref)
+      : undefined,
+    baseSha: payload.merge_group.base_sha
+  };
+}
+
+/**
+ * Resolve the GitHub event that triggered the workflow into a Recce session target
+ * @param context - GitHub context
+ * @param inputs - Action inputs
+ * @returns The session type, branch and PR number to upload artifacts for
+ * @throws Error if the event is not supported
+ */
+export function resolveEvent(context: Context, inputs: ActionInputs): ResolvedEvent {
+  switch (context.eventName) {
+    case 'pull_request':
+    case 'pull_request_target':
+      return resolvePullRequest(context);
+
+    case 'merge_group':
+      return resolveMergeGroup(context);
+
+    case 'workflow_dispatch':
+      if (inputs.pr_number !== undefined) {
+        return {
+          eventName: context.eventName,
+          sessionType: 'pr',
+          branch: requireBranch(context),
+          prNumber: inputs.pr_number,
+          headSha: context.sha
+        };
+      }
+      return {
+        eventName: context.eventName,
+        sessionType: 'base',
+        branch: requireBranch(context),
+        headSha: context.sha
+      };
+
+    case 'push':
+    case 'schedule':
+      return {
+        eventName: context.eventName,
+        sessionType: 'base',
+        branch: requireBranch(context),
+        headSha: context.sha
+      };
+
+    default:
+      throw new Error(
+        `Unsupported event '${context.eventName}'. Supported events: ${SUPPORTED_EVENTS.join(', ')}.`
+      );
+  }
+}
+
+/**
+ * Check that a workflow_dispatch run with pr_number was dispatched from the head of that pull request,
+ * so that the artifacts of another branch never end up in its session
+ * @param event - PR session resolved from the dispatch
+ * @param pullRequest - The pull request named by pr_number, as reported by the GitHub API
+ * @param repository - Repository the workflow runs in ('owner/repo')
+ * @returns The event with the base branch and SHA of the pull request
+ * @throws Error if the dispatched branch or commit is not the head of the pull request
+ */
+export function resolveDispatchedPullRequest(
+  event: ResolvedEvent,
+  pullRequest: DispatchedPullRequest,
+  repository: string
+): ResolvedEvent {
+  if (pullRequest.headRepository !== repository || pullRequest.headRef !== event.branch) {
+    throw new Error(
+      `Workflow dispatched from branch '${event.branch}', but pull request #${pullRequest.number} comes from '${String(pullRequest.headRepository)}:${pullRequest.headRef}'. Dispatch the workflow from the pull request branch.`
+    );
+  }
+  if (pullRequest.headSha !== event.headSha) {
+    throw new Error(
+      `Workflow dispatched at commit ${event.headSha}, but the head of pull request #${pullRequest.number} is ${pullRequest.headSha}. Dispatch the workflow again from the latest commit.`
+    );
+  }
+
+  return { ...event, baseRef: pullRequest.baseRef, baseSha: pullRequest.baseSha };
+}
@@ -0,0 +1,57 @@
+import * as core from '@actions/core';
+import * as exec from '@actions/exec';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { findMissingArtifacts, generateDbtArtifacts } from './generate';
+
+jest.mock('@actions/core');
+jest.mock('@actions/exec');
+
+const mockedCore = core as jest.Mocked<typeof core>;
+const mockedExec = exec as jest.Mocked<typeof exec>;
+
+describe('Artifact Generation', () => {
+  const testDir = path.join(__dirname, '__test_generate__');
+  const targetPath = path.join(testDir, 'target');
+
+  beforeEach(async () => {
+    await fs.mkdir(targetPath, { recursive: true });
+    mockedCore.group.mockImplementation((_name, fn) => fn());
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should report missing required artifacts', async () => {
+    await fs.writeFile(path.join(targetPath, 'manifest.json'), '{}');
+
+    await expect(findMissingArtifacts(targetPath)).resolves.toEqual(['catalog.json']);
+  });
+
+  it('should run the command from the project directory with --target-path', async () => {
+    mockedExec.exec.mockResolvedValue(0);
+
+    await generateDbtArtifacts('dbt docs generate', targetPath);
+
+    expect(mockedCore.group).toHaveBeenCalledWith(
+      expect.stringContaining('dbt docs generate'),
+      expect.any(Function)
+    );
+    expect(mockedExec.exec).toHaveBeenCalledWith(
+      'dbt docs generate',
+      ['--target-path', targetPath],
+      {
+        cwd: testDir
+      }
+    );
+  });
+
+  it('should fail when the command fails', async () => {
+    mockedExec.exec.mockRejectedValue(new Error('The process failed with exit code 2'));
+
+    await expect(generateDbtArtifacts('dbt docs generate', targetPath)).rejects.toThrow(
+      "Failed to generate dbt artifacts with 'dbt docs generate': The process failed with exit code 2"
+    );
+  });
+});
@@ -0,0 +1,49 @@
+import * as core from '@actions/core';
+import * as exec from '@actions/exec';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { REQUIRED_ARTIFACTS } from './artifacts';
+
+/**
+ * Find which required artifacts are missing from the target directory
+ * @param dbtTargetPath - Path to the DBT target directory
+ * @returns Missing artifact file names
+ */
+export async function findMissingArtifacts(dbtTargetPath: string): Promise<string[]> {
+  const missing: string[] = [];
+
+  for (const name of REQUIRED_ARTIFACTS) {
+    try {
+      await fs.access(path.join(dbtTargetPath, name));
+    } catch (error) {
+      missing.push(name);
+    }
+  }
+
+  return missing;
+}
+
+/**
+ * Run the artifact generation command for a dbt project. The command runs in the
+ * parent directory of the target directory (the dbt project directory) with
+ * `--target-path` appended, so the artifacts land in dbt_target_path.
+ * @param command - Command line to run (e.g., 'dbt docs generate')
+ * @param dbtTargetPath - Path to the DBT target directory
+ * @throws Error if the command cannot be started or exits with a non-zero code
+ */
+export async function generateDbtArtifacts(command: string, dbtTargetPath: string): Promise<void> {
+  const targetPath = path.resolve(dbtTargetPath);
+  const projectDir = path.dirname(targetPath);
+
+  await core.group(`[Generate] ${command} (target path '${dbtTargetPath}')`, async () => {
+    try {
+      await exec.exec(command, ['--target-path', targetPath], { cwd: projectDir });
+    } catch (error) {
+      throw new Error(
+        `Failed to generate dbt artifacts with '${command}': ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  });
+
+  core.info(`[Done] dbt artifacts generated in '${dbtTargetPath}' directory.`);
+}
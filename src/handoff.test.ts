@@ -0,0 +1,134 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import {
+  HANDOFF_METADATA_FILE,
+  readHandoffPackage,
+  stageHandoffPackage,
+  verifyHandoffPackage
+} from './handoff';
+import type {
+  HandoffPackage,
+  HandoffPullRequest,
+  ResolvedEvent,
+  WorkflowRunContext
+} from './types';
+
+jest.mock('@actions/core');
+jest.mock('@actions/artifact', () => ({ __esModule: true, default: {} }));
+
+describe('Fork Pull Request Handoff', () => {
+  const testDir = path.join(__dirname, '__test_handoff__');
+  const targetPath = path.join(testDir, 'target');
+  const stagingDir = path.join(testDir, 'staging');
+
+  const event: ResolvedEvent = {
+    eventName: 'pull_request',
+    sessionType: 'pr',
+    branch: 'feature',
+    prNumber: 42,
+    headSha: 'head-sha',
+    baseRef: 'main',
+    baseSha: 'base-sha'
+  };
+
+  const metadata: HandoffPackage = {
+    version: 1,
+    pr_number: 42,
+    head_sha: 'head-sha',
+    head_ref: 'feature',
+    projects: [{ path: 'projects/0', artifacts: ['manifest.json', 'catalog.json'] }]
+  };
+
+  const workflowRun: WorkflowRunContext['workflow_run'] = {
+    id: 7,
+    event: 'pull_request',
+    head_sha: 'head-sha',
+    head_branch: 'feature',
+    conclusion: 'success',
+    head_repository: { full_name: 'fork-owner/repo' }
+  };
+
+  const pullRequest: HandoffPullRequest = {
+    number: 42,
+    state: 'open',
+    headRef: 'feature',
+    headRepository: 'fork-owner/repo'
+  };
+
+  beforeEach(async () => {
+    await fs.mkdir(targetPath, { recursive: true });
+    await fs.mkdir(stagingDir, { recursive: true });
+    for (const name of ['manifest.json', 'catalog.json', 'run_results.json']) {
+      await fs.writeFile(path.join(targetPath, name), JSON.stringify({ name }));
+    }
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should stage the artifacts and metadata that can be read back', async () => {
+    const files = await stageHandoffPackage(stagingDir, event, [
+      { project: { targetPath }, artifacts: ['run_results.json'] }
+    ]);
+
+    expect(files.map(file => path.relative(stagingDir, file))).toEqual([
+      path.join('projects', '0', 'manifest.json'),
+      path.join('projects', '0', 'catalog.json'),
+      path.join('projects', '0', 'run_results.json'),
+      HANDOFF_METADATA_FILE
+    ]);
+
+    const { metadata: read, projects } = await readHandoffPackage(stagingDir);
+    expect(read).toMatchObject({
+      pr_number: 42,
+      head_sha: 'head-sha',
+      head_ref: 'feature',
+      base_ref: 'main',
+      base_sha: 'base-sha'
+    });
+    expect(projects).toEqual([
+      { name: undefined, targetPath: path.join(stagingDir, 'projects', '0') }
+    ]);
+  });
+
+  it('should refuse to stage outside a pull request', async () => {
+    await expect(
+      stageHandoffPackage(stagingDir, { ...event, sessionType: 'base', prNumber: undefined }, [])
+    ).rejects.toThrow("Mode 'collect' must run in a pull request workflow.");
+  });
+
+  it.each([
+    ['a project path outside the package', { path: '../../etc', artifacts: [] }],
+    ['an unsupported artifact', { path: 'projects/0', artifacts: ['profiles.yml'] }],
+    [
+      'a project name carrying a workflow command',
+      { name: 'finance\n::add-mask::x', path: 'projects/0', artifacts: [] }
+    ]
+  ])('should reject a package with %s', async (_case, project) => {
+    await fs.writeFile(
+      path.join(stagingDir, HANDOFF_METADATA_FILE),
+      JSON.stringify({ ...metadata, projects: [project] })
+    );
+
+    await expect(readHandoffPackage(stagingDir)).rejects.toThrow('Invalid handoff package');
+  });
+
+  it('should accept a package matching the workflow run and pull request', () => {
+    expect(() => verifyHandoffPackage(metadata, workflowRun, pullRequest)).not.toThrow();
+  });
+
+  it.each([
+    ['a different head SHA', { ...workflowRun, head_sha: 'other-sha' }, pullRequest, 'head SHA'],
+    [
+      'a pull request from another repository',
+      workflowRun,
+      { ...pullRequest, headRepository: 'attacker/repo' },
+      'comes from'
+    ],
+    ['a closed pull request', workflowRun, { ...pullRequest, state: 'closed' }, 'is closed'],
+    ['a push run', { ...workflowRun, event: 'push' }, pullRequest, "not 'pull_request'"]
+  ])('should reject %s', (_case, run, pr, message) => {
+    expect(() => verifyHandoffPackage(metadata, run, pr)).toThrow(message);
+  });
+});
@@ -0,0 +1,244 @@
+import artifactClient from '@actions/artifact';
+import * as core from '@actions/core';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { OPTIONAL_ARTIFACTS, REQUIRED_ARTIFACTS } from './artifacts';
+import type {
+  DbtProject,
+  HandoffPackage,
+  HandoffProject,
+  HandoffPullRequest,
+  ResolvedEvent,
+  WorkflowRunContext
+} from './types';
+
+/**
+ * File in the handoff package describing the pull request and its projects
+ */
+export const HANDOFF_METADATA_FILE = 'recce-handoff.json';
+
+/**
+ * Version of the handoff package format
+ */
+const HANDOFF_VERSION = 1;
+
+/**
+ * Directory of each project inside the package: 'projects/<index>'
+ */
+const PROJECT_PATH = /^projects\/\d+$/;
+
+/**
+ * Project names are logged and sent to Recce Cloud, so they must not carry workflow commands or HTML
+ */
+const PROJECT_NAME = /^[\w./-]+$/;
+
+/**
+ * Copy the artifacts of each project and the pull request metadata into a staging directory
+ * @param stagingDir - Empty directory to write the package to
+ * @param event - Pull request session resolved from the triggering event
+ * @param projects - Verified projects and the optional artifacts present in each
+ * @returns Paths of all files in the package
+ */
+export async function stageHandoffPackage(
+  stagingDir: string,
+  event: ResolvedEvent,
+  projects: Array<{ project: DbtProject; artifacts: string[] }>
+): Promise<string[]> {
+  if (event.sessionType !== 'pr' || event.prNumber === undefined) {
+    throw new Error("Mode 'collect' must run in a pull request workflow.");
+  }
+
+  const files: string[] = [];
+  const handoffProjects: HandoffProject[] = [];
+
+  for (const [index, { project, artifacts }] of projects.entries()) {
+    const projectPath = `projects/${index}`;
+    const projectDir = path.join(stagingDir, projectPath);
+    await fs.mkdir(projectDir, { recursive: true });
+
+    const names = [...REQUIRED_ARTIFACTS, ...artifacts];
+    for (const name of names) {
+      const destination = path.join(projectDir, name);
+      await fs.copyFile(path.join(project.targetPath, name), destination);
+      files.push(destination);
+    }
+
+    handoffProjects.push({ name: project.name, path: projectPath, artifacts: names });
+  }
+
+  const metadata: HandoffPackage = {
+    version: HANDOFF_VERSION,
+    pr_number: event.prNumber,
+    head_sha: event.headSha,
+    head_ref: event.branch,
+    base_ref: event.baseRef,
+    base_sha: event.baseSha,
+    projects: handoffProjects
+  };
+  const metadataPath = path.join(stagingDir, HANDOFF_METADATA_FILE);
+  await fs.writeFile(metadataPath, JSON.stringify(metadata, null, 2));
+  files.push(metadataPath);
+
+  return files;
+}
+
+/**
+ * Read and check the metadata of a downloaded handoff package.
+ * The package comes from an untrusted workflow, so every field is checked before use.
+ * @param packageDir - Directory the package was downloaded to
+ * @returns The package metadata and the dbt projects it contains
+ * @throws Error if the package is malformed
+ */
+export async function readHandoffPackage(
+  packageDir: string
+): Promise<{ metadata: HandoffPackage; projects: DbtProject[] }> {
+  const fail = (problem: string): never => {
+    throw new Error(`Invalid handoff package: ${problem}.`);
+  };
+
+  let metadata: HandoffPackage;
+  try {
+    metadata = JSON.parse(
+      await fs.readFile(path.join(packageDir, HANDOFF_METADATA_FILE), 'utf8')
+    ) as HandoffPackage;
+  } catch (error) {
+    return fail(
+      `cannot read ${HANDOFF_METADATA_FILE}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  if (metadata.version !== HANDOFF_VERSION) {
+    fail(`unsupported version ${String(metadata.version)}`);
+  }
+  if (!Number.isInteger(metadata.pr_number) || metadata.pr_number <= 0) {
+    fail("'pr_number' must be a positive integer");
+  }
+  for (const field of ['head_sha', 'head_ref'] as const) {
+    if (typeof metadata[field] !== 'string' || metadata[field] === '') {
+      fail(`'${field}' must be a non-empty string`);
+    }
+  }
+  if (!Array.isArray(metadata.projects) || metadata.projects.length === 0) {
+    fail("'projects' must list at least one project");
+  }
+
+  const allowedArtifacts = [...REQUIRED_ARTIFACTS, ...OPTIONAL_ARTIFACTS];
+  const projects = metadata.projects.map(project => {
+    if (typeof project.path !== 'string' || !PROJECT_PATH.test(project.path)) {
+      fail(`project path '${String(project.path)}' is not allowed`);
+    }
+    if (
+      project.name !== undefined &&
+      (typeof project.name !== 'string' || !PROJECT_NAME.test(project.name))
+    ) {
+      fail(`project name of '${project.path}' is not allowed`);
+    }
+    if (
+      !Array.isArray(project.artifacts) ||
+      project.artifacts.some(name => !allowedArtifacts.includes(name))
+    ) {
+      fail(`project '${project.path}' lists unsupported artifacts`);
+    }
+    return {
+      name: metadata.projects.length > 1 ? (project.name ?? project.path) : undefined,
+      targetPath: path.join(packageDir, project.path)
+    };
+  });
+
+  return { metadata, projects };
+}
+
+/**
+ * Check that a handoff package belongs to the pull request and run that triggered the publish
+ * @param metadata - Handoff package metadata
+ * @param workflowRun - The collect workflow run, from the trusted workflow_run event payload
+ * @param pullRequest - The pull request named by the package, as reported by the GitHub API
+ * @throws Error if the package does not match
+ */
+export function verifyHandoffPackage(
+  metadata: HandoffPackage,
+  workflowRun: WorkflowRunContext['workflow_run'],
+  pullRequest: HandoffPullRequest
+): void {
+  const problems: string[] = [];
+
+  if (workflowRun.event !== 'pull_request') {
+    problems.push(`the workflow run was triggered by '${workflowRun.event}', not 'pull_request'`);
+  }
+  if (metadata.head_sha !== workflowRun.head_sha) {
+    problems.push(
+      `the package head SHA ${metadata.head_sha} differs from the workflow run head SHA ${workflowRun.head_sha}`
+    );
+  }
+  if (
+    metadata.head_ref !== workflowRun.head_branch ||
+    pullRequest.headRef !== workflowRun.head_branch
+  ) {
+    problems.push(
+      `pull request #${pullRequest.number} head branch '${pullRequest.headRef}' does not match the workflow run branch '${String(workflowRun.head_branch)}'`
+    );
+  }
+  if (pullRequest.headRepository !== workflowRun.head_repository.full_name) {
+    problems.push(
+      `pull request #${pullRequest.number} comes from '${String(pullRequest.headRepository)}', not '${workflowRun.head_repository.full_name}'`
+    );
+  }
+  if (pullRequest.state !== 'open') {
+    problems.push(`pull request #${pullRequest.number} is ${pullRequest.state}`);
+  }
+
+  if (problems.length > 0) {
+    throw new Error(
+      `[Error] Handoff package does not match the pull request: ${problems.join('; ')}.`
+    );
+  }
+}
+
+/**
+ * Upload a staged handoff package as an artifact of the current workflow run
+ * @param name - Workflow artifact name
+ * @param stagingDir - Directory the package was staged in
+ * @param files - Paths of all files in the package
+ */
+export async function uploadHandoffPackage(
+  name: string,
+  stagingDir: string,
+  files: string[]
+): Promise<void> {
+  const { id, size } = await artifactClient.uploadArtifact(name, files, stagingDir);
+  core.info(
+    `[Done] Handoff package uploaded as workflow artifact '${name}' (ID ${id}, ${size ?? 0} bytes).`
+  );
+}
+
+/**
+ * Download the handoff package of the workflow run that triggered a workflow_run event
+ * @param name - Workflow artifact name
+ * @param githubToken - Token with actions: read permission on the repository
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param workflowRunId - ID of the collect workflow run
+ * @returns Temporary directory the package was extracted to
+ */
+export async function downloadHandoffPackage(
+  name: string,
+  githubToken: string,
+  owner: string,
+  repo: string,
+  workflowRunId: number
+): Promise<string> {
+  const findBy = {
+    token: githubToken,
+    workflowRunId,
+    repositoryOwner: owner,
+    repositoryName: repo
+  };
+
+  const { artifact } = await artifactClient.getArtifact(name, { findBy });
+  const packageDir = await fs.mkdtemp(path.join(process.env.RUNNER_TEMP || os.tmpdir(), 'recce-'));
+  await artifactClient.downloadArtifact(artifact.id, { path: packageDir, findBy });
+  core.info(`[Done] Handoff package '${name}' downloaded from workflow run ${workflowRunId}.`);
+
+  return packageDir;
+}
@@ -0,0 +1,14 @@
+/**
+ * Error raised when an HTTP request completes with a non-2xx status
+ */
+export class HttpStatusError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: number,
+    public readonly retryAfter?: string,
+    public readonly body?: string
+  ) {
+    super(message);
+    this.name = 'HttpStatusError';
+  }
+}
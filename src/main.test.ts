@@ -1,7 +1,10 @@
 import * as core from '@actions/core';
 import * as github from '@actions/github';
+import { HttpClient } from '@actions/http-client';
+import type { HttpClientResponse } from '@actions/http-client';
 import { promises as fs } from 'fs';
 import * as path from 'path';
+import { run } from './main';
 
 // Mock all external dependencies
 jest.mock('@actions/core');
@@ -303,6 +306,141 @@ describe('Recce Cloud CI/CD Action', () => {
     });
   });
 
+  describe('Base Session Upload', () => {
+    it('should set the session outputs and summarize the base commit', async () => {
+      await fs.mkdir(testDir, { recursive: true });
+      await fs.writeFile(
+        path.join(testDir, 'manifest.json'),
+        JSON.stringify({ metadata: { adapter_type: 'postgres', dbt_version: '1.8.0' }, nodes: {} })
+      );
+      await fs.writeFile(path.join(testDir, 'catalog.json'), JSON.stringify({ nodes: {} }));
+
+      mockedCore.getInput.mockImplementation((name: string) => {
+        const inputs: Record<string, string> = {
+          dbt_target_path: testDir,
+          api_host: 'https://cloud.datarecce.io',
+          web_host: 'https://cloud.datarecce.io',
+          base_branch: 'main',
+          validation_mode: 'off',
+          compress_artifacts: 'false'
+        };
+        return inputs[name] || '';
+      });
+      const mockSummary = {
+        addHeading: jest.fn().mockReturnThis(),
+        addRaw: jest.fn().mockReturnThis(),
+        addTable: jest.fn().mockReturnThis(),
+        addList: jest.fn().mockReturnThis(),
+        addLink: jest.fn().mockReturnThis(),
+        write: jest.fn().mockResolvedValue(undefined)
+      };
+      mockedCore.summary = mockSummary as unknown as typeof core.summary;
+
+      const respond = (body?: unknown): Promise<HttpClientResponse> =>
+        Promise.resolve({
+          message: { statusCode: 200, headers: {} },
+          readBody: () => Promise.resolve(body === undefined ? '' : JSON.stringify(body))
+        } as HttpClientResponse);
+      jest.spyOn(HttpClient.prototype, 'request').mockImplementation((_verb, url) =>
+        respond(
+          url.endsWith('/touch-recce-session')
+            ? {
+                session_id: 'base-session',
+                manifest_upload_url: 'https://storage.example.com/manifest',
+                catalog_upload_url: 'https://storage.example.com/catalog'
+              }
+            : undefined
+        )
+      );
+      jest
+        .spyOn(HttpClient.prototype, 'sendStream')
+        .mockImplementation(async (_verb, _url, stream) => {
+          await new Promise(resolve => stream.resume().on('end', resolve));
+          return respond();
+        });
+
+      await run();
+
+      expect(mockedCore.setFailed).not.toHaveBeenCalled();
+      expect(mockedCore.setOutput).toHaveBeenCalledWith('session_type', 'base');
+      expect(mockedCore.setOutput).toHaveBeenCalledWith('session_id', 'base-session');
+      expect(mockedCore.setOutput).toHaveBeenCalledWith(
+        'session_url',
+        'https://cloud.datarecce.io/launch/base-session'
+      );
+      expect(mockedCore.setOutput).toHaveBeenCalledWith('adapter_type', 'postgres');
+      expect(mockedCore.setOutput).toHaveBeenCalledWith('dbt_version', '1.8.0');
+      expect(mockSummary.addRaw).toHaveBeenCalledWith(
+        expect.stringContaining('The base session has been updated')
+      );
+      expect(mockSummary.addRaw).toHaveBeenCalledWith(
+        expect.stringContaining('https://github.com/test-owner/test-repo/commit/test-sha')
+      );
+    });
+  });
+
+  describe('Artifact Selection', () => {
+    it('should reject state: selectors for several projects', async () => {
+      Object.defineProperty(mockedGithub, 'context', {
+        value: {
+          ...mockedGithub.context,
+          eventName: 'pull_request',
+          payload: {
+            action: 'synchronize',
+            pull_request: {
+              number: 7,
+              head: { ref: 'feature', sha: 'head-sha' },
+              base: { ref: 'main', sha: 'base-sha' }
+            }
+          }
+        },
+        writable: true,
+        configurable: true
+      });
+      mockedCore.getInput.mockImplementation((name: string) => {
+        const inputs: Record<string, string> = {
+          dbt_target_path: 'finance/target, marketing/target',
+          base_target_path: 'target-base',
+          select: 'state:modified+',
+          dry_run: 'true'
+        };
+        return inputs[name] || '';
+      });
+
+      await run();
+
+      expect(mockedCore.setFailed).toHaveBeenCalledWith(
+        expect.stringContaining('state: selectors, which only apply to single-project runs')
+      );
+    });
+  });
+
+  describe('Closed Pull Requests', () => {
+    it('should skip closing sessions in collect mode', async () => {
+      Object.defineProperty(mockedGithub, 'context', {
+        value: {
+          ...mockedGithub.context,
+          eventName: 'pull_request',
+          payload: {
+            action: 'closed',
+            pull_request: { number: 7, merged: false, head: { ref: 'feature', sha: 'head-sha' } }
+          }
+        },
+        writable: true,
+        configurable: true
+      });
+      mockedCore.getInput.mockImplementation((name: string) =>
+        name === 'mode' ? 'collect' : name === 'dbt_target_path' ? 'missing/*/target' : ''
+      );
+
+      await run();
+
+      expect(mockedCore.setFailed).not.toHaveBeenCalled();
+      expect(mockedCore.setOutput).toHaveBeenCalledWith('skipped', 'true');
+      expect(mockedGithub.getOctokit).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Error Handling', () => {
     it('should handle JSON parse errors gracefully', async () => {
       await fs.mkdir(testDir, { recursive: true });
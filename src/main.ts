@@ -1,17 +1,89 @@
 import * as core from '@actions/core';
 import * as github from '@actions/github';
 import { promises as fs } from 'fs';
+import * as os from 'os';
 import * as path from 'path';
-import { HttpClient } from '@actions/http-client';
+import {
+  buildUploadTargets,
+  findOptionalArtifacts,
+  hashArtifacts,
+  isUploadUnchanged,
+  OPTIONAL_ARTIFACTS,
+  parseArtifactsInput,
+  REQUIRED_ARTIFACTS
+} from './artifacts';
+import { resolveAuth } from './auth';
+import { RecceApiError, RecceCloudClient } from './client';
+import { buildSessionComment, upsertPullRequestComment } from './comment';
+import { applyConfig, loadConfigFile, logEffectiveConfig } from './config';
+import {
+  diffManifests,
+  readLineageArtifacts,
+  renderLineageDiff,
+  summarizeLineageDiff
+} from './diff';
+import {
+  ActionFailureError,
+  classifyError,
+  ManifestParseError,
+  redactUrl,
+  reportFailure
+} from './diagnostics';
+import { isBaseBranch, resolveDispatchedPullRequest, resolveEvent } from './events';
+import { findMissingArtifacts, generateDbtArtifacts } from './generate';
+import {
+  downloadHandoffPackage,
+  readHandoffPackage,
+  stageHandoffPackage,
+  uploadHandoffPackage,
+  verifyHandoffPackage
+} from './handoff';
+import { buildRunReport, MetricsRecorder, reportRunMetrics } from './metrics';
+import { buildDryRunPlan, REDACTED, reportDryRunPlan } from './plan';
+import { mapWithConcurrency, resolveDbtProjects } from './projects';
+import {
+  parseRedactPaths,
+  parseRedactPatterns,
+  removeSanitizedManifest,
+  reportRedactions,
+  writeSanitizedManifest
+} from './sanitize';
+import {
+  parseSelectInput,
+  removePrunedArtifacts,
+  reportSelection,
+  requiresState,
+  writePrunedArtifacts
+} from './select';
+import { isStaleCommit } from './stale';
+import { reportValidationIssues, validateDbtArtifacts } from './validation';
+import { waitForSessionReady } from './wait';
 import type {
   ActionInputs,
+  ActionMode,
+  AuthMode,
+  BaseBranchMismatchAction,
+  CloseSessionRequest,
+  CloseSessionResponse,
+  DbtCatalog,
   DbtManifest,
+  DbtManifestMetadata,
   TouchSessionRequest,
   TouchSessionResponse,
-  UploadCompletedRequest,
-  PullRequestContext,
-  SessionType,
-  ErrorContext
+  UploadCompression,
+  ValidationMode,
+  ResolvedEvent,
+  DbtProject,
+  ResolvedAuth,
+  UploadResult,
+  LineageDiff,
+  SanitizedManifest,
+  PrunedArtifacts,
+  ProjectMetrics,
+  SessionCommentDetails,
+  ErrorContext,
+  FailureReason,
+  WorkflowRunContext
 } from './types';
 
 /**
@@ -33,7 +105,7 @@ async function verifyDbtManifestFiles(dbtTargetPath: string): Promise<void> {
     await core.summary
       .addHeading('Recce Cloud CI/CD Action Error', 3)
       .addRaw(
-        'The DBT `manifest.json` file is missing. Please ensure that your DBT project has been built and the manifest.json file is present in the specified target directory.'
+        'The DBT `manifest.json` file is missing. Please ensure that your DBT project has been built and the manifest.json file is present in the specified target directory, or set `generate_artifacts: true` to generate it.'
       )
       .write();
     throw new Error(errorMsg);
@@ -47,7 +119,7 @@ async function verifyDbtManifestFiles(dbtTargetPath: string): Promise<void> {
     await core.summary
       .addHeading('Recce Cloud CI/CD Action Error', 3)
       .addRaw(
-        'The DBT `catalog.json` file is missing. Please ensure that your DBT project has been built and the catalog.json file is present in the specified target directory.'
+        'The DBT `catalog.json` file is missing. Please ensure that your DBT project has been built and the catalog.json file is present in the specified target directory, or set `generate_artifacts: true` to generate it.'
       )
       .write();
     throw new Error(errorMsg);
@@ -57,12 +129,12 @@ async function verifyDbtManifestFiles(dbtTargetPath: string): Promise<void> {
 }
 
 /**
- * Get the adapter type from manifest.json
+ * Get the metadata from manifest.json
  * @param dbtTargetPath - Path to the DBT target directory
- * @returns The adapter type (e.g., 'postgres', 'snowflake', 'bigquery')
- * @throws Error if manifest.json is invalid or missing adapter_type
+ * @returns The manifest metadata, including adapter type (e.g., 'postgres', 'snowflake') and dbt version
+ * @throws ManifestParseError if manifest.json is invalid or missing adapter_type
  */
-async function getAdapterType(dbtTargetPath: string): Promise<string> {
+async function getManifestMetadata(dbtTargetPath: string): Promise<DbtManifestMetadata> {
   const manifestPath = path.join(dbtTargetPath, 'manifest.json');
   const manifestContent = await fs.readFile(manifestPath, 'utf8');
 
@@ -73,38 +145,13 @@ async function getAdapterType(dbtTargetPath: string): Promise<string> {
       throw new Error('adapter_type not found in manifest metadata');
     }
 
-    return manifest.metadata.adapter_type;
+    return manifest.metadata;
   } catch (error) {
     const errorMsg = `Failed to parse manifest.json or extract adapter_type: ${error instanceof Error ? error.message : String(error)}`;
     core.error(errorMsg);
-    throw new Error(errorMsg);
-  }
-}
-
-/**
- * Upload file to a presigned URL
- * @param httpClient - HTTP client instance
- * @param filePath - Path to the file to upload
- * @param uploadUrl - Presigned URL for upload
- * @throws Error if upload fails
- */
-async function uploadFile(
-  httpClient: HttpClient,
-  filePath: string,
-  uploadUrl: string
-): Promise<void> {
-  const fileContent = await fs.readFile(filePath, 'utf8');
-
-  // For presigned S3 URL uploads, you must include exactly the headers used when signing the URL.
-  // Adding headers not in the signature (like Content-Type) will cause a signature mismatch, but omitting required ones will also fail.
-  const response = await httpClient.put(uploadUrl, fileContent, {});
-
-  if (
-    response.message.statusCode == null ||
-    response.message.statusCode < 200 ||
-    response.message.statusCode >= 300
-  ) {
-    throw new Error(`Failed to upload file: ${filePath}. Status: ${response.message.statusCode}`);
+    const parseError = new ManifestParseError(errorMsg);
+    await reportFailure(`Failed to read ${manifestPath}`, classifyError(parseError));
+    throw parseError;
   }
 }
 
@@ -114,19 +161,25 @@ async function uploadFile(
  * @param branch - Branch name
  * @param eventType - GitHub event type
  * @param apiEndpoint - Optional API endpoint
+ * @param project - Optional dbt project name
+ * @param authMode - Optional Recce Cloud auth mode
  * @returns Error context object
  */
 function buildErrorContext(
   repository: string,
   branch: string,
   eventType: string,
-  apiEndpoint?: string
+  apiEndpoint?: string,
+  project?: string,
+  authMode?: AuthMode
 ): ErrorContext {
   return {
     repository,
     branch,
     eventType,
-    apiEndpoint
+    apiEndpoint,
+    project,
+    authMode
   };
 }
 
@@ -141,8 +194,19 @@ async function logDetailedError(
   context: ErrorContext,
   error?: unknown
 ): Promise<void> {
+  // Recce Cloud API errors carry the details needed to trace the request on the server
+  const detailedContext =
+    error instanceof RecceApiError
+      ? {
+          ...context,
+          apiEndpoint: error.endpoint,
+          statusCode: error.statusCode,
+          requestId: error.requestId
+        }
+      : context;
+
   core.error(message);
-  core.error(`Context: ${JSON.stringify(context, null, 2)}`);
+  core.error(`Context: ${JSON.stringify(detailedContext, null, 2)}`);
 
   if (error instanceof Error) {
     core.error(`Error details: ${error.message}`);
@@ -151,101 +215,252 @@ async function logDetailedError(
     }
   }
 
-  await core.summary
-    .addHeading('Recce Cloud CI/CD Action Error', 3)
-    .addRaw(message)
-    .addHeading('Context', 4)
-    .addCodeBlock(JSON.stringify(context, null, 2), 'json')
-    .write();
+  await reportFailure(message, classifyError(error, context.authMode), detailedContext);
 }
 
 /**
- * Create or touch a Recce session and upload DBT artifacts
+ * Build the request body for creating or touching a Recce session
  * @param inputs - Action inputs
- * @returns Session ID for pull requests, undefined for base branch
+ * @param event - Session target resolved from the triggering event
+ * @param project - The dbt project being uploaded
+ * @param metadata - Manifest metadata
+ * @param optionalArtifacts - Optional artifact file names that will be uploaded
+ * @returns Request body for touch-recce-session
  */
-async function uploadDbtArtifacts(inputs: ActionInputs): Promise<string | undefined> {
-  const httpClient = new HttpClient('recce-cloud-cicd-action', undefined, {
-    allowRetries: true,
-    maxRetries: 3
-  });
+function buildTouchSessionRequest(
+  inputs: ActionInputs,
+  event: ResolvedEvent,
+  project: DbtProject,
+  metadata: DbtManifestMetadata,
+  optionalArtifacts: string[],
+  artifactHashes: Record<string, string>
+): TouchSessionRequest {
+  const context = github.context;
 
+  return {
+    branch: event.branch,
+    pr_number: event.prNumber,
+    adapter_type: metadata.adapter_type,
+    dbt_version: metadata.dbt_version,
+    head_sha: event.headSha,
+    base_sha: event.baseSha,
+    base_ref: event.baseRef,
+    run_id: context.runId,
+    run_attempt: context.runAttempt,
+    workflow: context.workflow,
+    actor: context.actor,
+    supported_compression: inputs.compress_artifacts ? ['gzip', 'none'] : ['none'],
+    artifacts: optionalArtifacts.length > 0 ? optionalArtifacts : undefined,
+    artifact_hashes: artifactHashes,
+    project: project.name
+  };
+}
+
+/**
+ * Compare the project's artifacts against the base branch artifacts, read from
+ * base_target_path or downloaded from the URLs in the session response.
+ * Failures are reported as warnings since the diff is informational only.
+ * @param inputs - Action inputs
+ * @param project - The dbt project being uploaded
+ * @param client - Recce Cloud API client used to download the base artifacts
+ * @param session - Touch session response, if a session was created
+ * @returns The lineage diff, or undefined if no base manifest is available
+ */
+async function buildLineageDiff(
+  inputs: ActionInputs,
+  project: DbtProject,
+  client: RecceCloudClient,
+  session?: TouchSessionResponse
+): Promise<LineageDiff | undefined> {
+  try {
+    let baseManifest: DbtManifest | undefined;
+    let baseCatalog: DbtCatalog | undefined;
+
+    if (inputs.base_target_path && project.name) {
+      core.warning(
+        `[Diff] Input 'base_target_path' only applies to single-project runs and is ignored for project '${project.name}'.`
+      );
+    }
+
+    if (inputs.base_target_path && !project.name) {
+      ({ manifest: baseManifest, catalog: baseCatalog } = await readLineageArtifacts(
+        inputs.base_target_path
+      ));
+    } else if (session?.base_manifest_url) {
+      baseManifest = await client.downloadArtifact<DbtManifest>(
+        'base manifest.json',
+        session.base_manifest_url
+      );
+      if (session.base_catalog_url) {
+        baseCatalog = await client.downloadArtifact<DbtCatalog>(
+          'base catalog.json',
+          session.base_catalog_url
+        );
+      }
+    }
+
+    if (!baseManifest) {
+      core.info('[Skip] No base manifest available, skipping the lineage diff.');
+      return undefined;
+    }
+
+    const current = await readLineageArtifacts(project.targetPath);
+    const diff = diffManifests(baseManifest, current.manifest, baseCatalog, current.catalog);
+    core.info(`[Diff] ${summarizeLineageDiff(diff)}.`);
+    return diff;
+  } catch (error) {
+    core.warning(
+      `[Diff] Failed to compare against the base manifest: ${error instanceof Error ? error.message : String(error)}`
+    );
+    return undefined;
+  }
+}
+
+/**
+ * Create or touch a Recce session and upload DBT artifacts
+ * @param inputs - Action inputs
+ * @param event - Session target resolved from the triggering event
+ * @param project - The dbt project to upload
+ * @param auth - Credentials for Recce Cloud
+ * @param metrics - Recorder for the timing, file sizes and retries of the upload
+ * @param overrides - Files to upload instead of the ones in the target directory, keyed by
+ *   artifact name (e.g., a sanitized manifest.json or a pruned catalog.json)
+ * @returns The upload result; in dry-run mode it carries the planned requests instead of a session ID
+ */
+async function uploadDbtArtifacts(
+  inputs: ActionInputs,
+  event: ResolvedEvent,
+  project: DbtProject,
+  auth: ResolvedAuth,
+  metrics: MetricsRecorder,
+  overrides: Record<string, string> = {}
+): Promise<UploadResult> {
   const context = github.context;
   const repository = `${context.repo.owner}/${context.repo.repo}`;
-  const adapterType = await getAdapterType(inputs.dbt_target_path);
+  const { targetPath } = project;
+  const metadata = await getManifestMetadata(targetPath);
+  const client = new RecceCloudClient({
+    apiHost: inputs.api_host,
+    repository,
+    token: auth.token,
+    retryPolicy: {
+      maxRetries: inputs.max_retries,
+      initialDelayMs: inputs.retry_delay * 1000,
+      onRetry: label => metrics.countRetry(label)
+    }
+  });
 
-  let requestBody: TouchSessionRequest;
-  let sessionType: SessionType;
-  let branchName: string;
+  const { sessionType, branch: branchName, prNumber } = event;
+  const optionalArtifacts = await findOptionalArtifacts(targetPath, inputs.artifacts);
+  const artifactFiles = Object.fromEntries(
+    [...REQUIRED_ARTIFACTS, ...optionalArtifacts].map(name => [
+      name,
+      overrides[name] ?? path.join(targetPath, name)
+    ])
+  );
+  const artifactHashes = await hashArtifacts(artifactFiles);
+  const requestBody = buildTouchSessionRequest(
+    inputs,
+    event,
+    project,
+    metadata,
+    optionalArtifacts,
+    artifactHashes
+  );
 
-  if (context.eventName === 'pull_request') {
-    core.info('[Upload] Artifacts for Pull Request session...');
+  const result: UploadResult = {
+    project,
+    sessionType,
+    adapterType: metadata.adapter_type,
+    dbtVersion: metadata.dbt_version
+  };
 
-    const payload = context.payload as PullRequestContext;
-    branchName = payload.pull_request.head.ref;
-    const prNumber = payload.pull_request.number;
+  if (inputs.dry_run) {
+    result.dryRunPlan = await buildDryRunPlan(
+      inputs.api_host,
+      repository,
+      requestBody,
+      Object.values(artifactFiles)
+    );
+    if (sessionType === 'pr') {
+      result.lineageDiff = await buildLineageDiff(inputs, project, client);
+    }
+    return result;
+  }
 
-    requestBody = {
-      branch: branchName,
-      pr_number: prNumber,
-      adapter_type: adapterType
-    };
-    sessionType = 'pr';
+  const projectLabel = project.name ? ` (project '${project.name}')` : '';
+  if (sessionType === 'pr') {
+    core.info(`[Upload] Artifacts for Pull Request #${prNumber} session${projectLabel}...`);
   } else {
-    core.info('[Upload] Artifacts for base session...');
-
-    branchName = context.ref.replace('refs/heads/', '');
-
-    requestBody = {
-      branch: branchName,
-      adapter_type: adapterType
-    };
-    sessionType = 'base';
+    core.info(`[Upload] Artifacts for base session${projectLabel}...`);
   }
 
   // Create or touch Recce session
-  const touchUrl = `${inputs.api_host}/api/v2/github/${repository}/touch-recce-session`;
-  const errorContext = buildErrorContext(repository, branchName, context.eventName, touchUrl);
+  const touchUrl = client.apiUrl('touch-recce-session');
+  const errorContext = buildErrorContext(
+    repository,
+    branchName,
+    context.eventName,
+    touchUrl,
+    project.name,
+    auth.mode
+  );
 
-  let response;
+  let responseData: TouchSessionResponse;
   try {
-    response = await httpClient.postJson<TouchSessionResponse>(touchUrl, requestBody, {
-      Authorization: `Bearer ${inputs.github_token}`,
-      'Content-Type': 'application/json'
-    });
+    responseData = await metrics.time(
+      'touch',
+      () => client.touchSession(requestBody),
+      'touch-recce-session'
+    );
   } catch (error) {
     await logDetailedError('Failed to create or retrieve Recce session', errorContext, error);
     throw error;
   }
 
-  if (response.statusCode !== 200 || !response.result) {
-    const errorMsg = `Failed to create or retrieve Recce session. HTTP Status: ${response.statusCode}`;
-    await logDetailedError(errorMsg, errorContext);
-    throw new Error(errorMsg);
+  // Never replace artifacts of a newer commit, e.g. when an old workflow run is re-run
+  if (responseData.head_sha) {
+    await guardStaleUpload(inputs.github_token, responseData.head_sha, event.headSha);
   }
 
-  const responseData = response.result;
   const { manifest_upload_url, catalog_upload_url, session_id } = responseData;
 
-  core.info(`Manifest Upload URL: ${manifest_upload_url}`);
-  core.info(`Catalog Upload URL: ${catalog_upload_url}`);
-
-  if (!manifest_upload_url || !catalog_upload_url || !session_id) {
-    const errorMsg = 'Failed to get upload URLs or session ID from Recce Cloud.';
-    await logDetailedError(errorMsg, errorContext);
-    throw new Error(errorMsg);
+  // Recce Cloud already stores identical artifacts, e.g. for a scheduled base run without changes
+  if (inputs.skip_unchanged && isUploadUnchanged(artifactHashes, responseData.artifact_hashes)) {
+    result.sessionId = session_id;
+    result.skipReason = responseData.head_sha
+      ? `Artifacts are unchanged since the upload of commit ${responseData.head_sha.slice(0, 7)}.`
+      : 'Artifacts are unchanged since the last upload.';
+    core.info(`[Skip] ${result.skipReason} Skipping upload${projectLabel}.`);
+    if (sessionType === 'pr') {
+      result.lineageDiff = await buildLineageDiff(inputs, project, client, responseData);
+    }
+    return result;
   }
+  const compression: UploadCompression =
+    inputs.compress_artifacts && responseData.upload_compression === 'gzip' ? 'gzip' : 'none';
 
-  // Upload manifest.json and catalog.json
-  core.info('[Uploading] manifest.json and catalog.json to Recce Cloud...');
-  const manifestPath = path.join(inputs.dbt_target_path, 'manifest.json');
-  const catalogPath = path.join(inputs.dbt_target_path, 'catalog.json');
+  // Presigned URLs grant write access until they expire, so their signatures are never logged
+  core.info(`Manifest Upload URL: ${redactUrl(manifest_upload_url)}`);
+  core.info(`Catalog Upload URL: ${redactUrl(catalog_upload_url)}`);
+
+  // Upload manifest.json, catalog.json and any optional artifacts
+  const uploadTargets = buildUploadTargets(targetPath, responseData, optionalArtifacts, overrides);
+  core.info(`[Uploading] ${uploadTargets.map(target => target.name).join(', ')} to Recce Cloud...`);
 
   try {
-    await Promise.all([
-      uploadFile(httpClient, manifestPath, manifest_upload_url),
-      uploadFile(httpClient, catalogPath, catalog_upload_url)
-    ]);
+    await Promise.all(
+      uploadTargets.map(target =>
+        metrics.time(
+          `upload ${target.name}`,
+          async phase => {
+            phase.size_bytes = (await fs.stat(target.filePath)).size;
+            phase.uploaded_bytes = await client.uploadArtifact(target, compression);
+          },
+          `Upload ${target.name}`
+        )
+      )
+    );
   } catch (error) {
     await logDetailedError('Failed to upload artifacts', errorContext, error);
     throw error;
@@ -254,59 +469,949 @@ async function uploadDbtArtifacts(inputs: ActionInputs): Promise<string | undefi
   core.info('[Done] Artifacts uploaded to Recce Cloud.');
 
   // Notify upload completion
-  const uploadCompletedUrl = `${inputs.api_host}/api/v2/github/${repository}/upload-completed`;
-  const uploadCompletedBody: UploadCompletedRequest = { session_id };
+  const completeErrorContext = buildErrorContext(
+    repository,
+    branchName,
+    context.eventName,
+    client.apiUrl('upload-completed'),
+    project.name,
+    auth.mode
+  );
 
-  await httpClient.postJson(uploadCompletedUrl, uploadCompletedBody, {
-    Authorization: `Bearer ${inputs.github_token}`,
-    'Content-Type': 'application/json'
-  });
+  try {
+    await metrics.time('complete', () => client.completeUpload(session_id), 'upload-completed');
+  } catch (error) {
+    await logDetailedError(
+      `Artifacts were uploaded but Recce Cloud was not notified of completion for session ${session_id}. Re-run the workflow to retry.`,
+      completeErrorContext,
+      error
+    );
+    throw error;
+  }
+
+  result.sessionId = session_id;
 
-  // Add summary
+  // Wait for Recce Cloud to process the uploaded artifacts
+  if (inputs.wait_for_ready) {
+    try {
+      result.sessionWait = await metrics.time(
+        'wait',
+        () => waitForSessionReady(client, session_id, inputs.wait_timeout),
+        'session status'
+      );
+    } catch (error) {
+      await logDetailedError(
+        `Failed to get the processing status of session ${session_id}`,
+        buildErrorContext(
+          repository,
+          branchName,
+          context.eventName,
+          client.apiUrl(`sessions/${session_id}/status`),
+          project.name,
+          auth.mode
+        ),
+        error
+      );
+      throw error;
+    }
+  }
   if (sessionType === 'pr') {
+    result.lineageDiff = await buildLineageDiff(inputs, project, client, responseData);
+  }
+  return result;
+}
+
+/**
+ * Refuse to upload artifacts of a commit older than the one Recce Cloud already stores
+ * @param githubToken - GitHub token used to compare the commits
+ * @param uploadedSha - Commit SHA reported by Recce Cloud for the session
+ * @param headSha - Commit SHA of this run
+ * @throws Error if headSha is older than uploadedSha
+ */
+async function guardStaleUpload(
+  githubToken: string,
+  uploadedSha: string,
+  headSha: string
+): Promise<void> {
+  const { owner, repo } = github.context.repo;
+
+  if (!githubToken) {
+    core.warning('Skipping the stale commit check because no GitHub token is available.');
+    return;
+  }
+
+  let stale: boolean;
+  try {
+    stale = await isStaleCommit(github.getOctokit(githubToken), owner, repo, uploadedSha, headSha);
+  } catch (error) {
+    core.warning(
+      `Skipping the stale commit check: failed to compare ${headSha} with ${uploadedSha}: ${error instanceof Error ? error.message : String(error)}`
+    );
+    return;
+  }
+
+  if (stale) {
+    throw new Error(
+      `[Error] Commit ${headSha} is older than commit ${uploadedSha}, whose artifacts Recce Cloud already stores for this session. Refusing to overwrite them with stale artifacts.`
+    );
+  }
+}
+
+/**
+ * Generate (if enabled), verify and validate the artifacts of one dbt project
+ * @param inputs - Action inputs
+ * @param project - The dbt project to prepare
+ * @param metrics - Recorder for the timing of each step
+ * @throws Error if the artifacts are missing or fail strict validation
+ */
+async function prepareProject(
+  inputs: ActionInputs,
+  project: DbtProject,
+  metrics = new MetricsRecorder()
+): Promise<void> {
+  // Generate DBT artifacts when they are missing and generation is enabled
+  if (inputs.generate_artifacts) {
+    const missing = await findMissingArtifacts(project.targetPath);
+    if (missing.length > 0) {
+      core.info(
+        `[Generate] ${missing.join(', ')} not found in '${project.targetPath}' directory, running '${inputs.generate_command}'...`
+      );
+      await metrics.time('generate', () =>
+        generateDbtArtifacts(inputs.generate_command, project.targetPath)
+      );
+    }
+  }
+
+  // Verify DBT manifest files
+  await metrics.time('verify', () => verifyDbtManifestFiles(project.targetPath));
+
+  // Validate DBT manifest and catalog contents
+  if (inputs.validation_mode !== 'off') {
+    const issues = await metrics.time('validate', () => validateDbtArtifacts(project.targetPath));
+    await reportValidationIssues(issues, inputs.validation_mode);
+  }
+}
+
+/**
+ * Verify, validate and upload the artifacts of one dbt project
+ * @param inputs - Action inputs
+ * @param event - Session target resolved from the triggering event
+ * @param project - The dbt project to upload
+ * @param auth - Credentials for Recce Cloud
+ * @param metrics - Recorder for the timing, file sizes and retries of the upload
+ * @returns The upload result
+ */
+async function processProject(
+  inputs: ActionInputs,
+  event: ResolvedEvent,
+  project: DbtProject,
+  auth: ResolvedAuth,
+  metrics: MetricsRecorder
+): Promise<UploadResult> {
+  metrics.start();
+  await prepareProject(inputs, project, metrics);
+
+  // Prune a temporary copy of the PR artifacts to the selected nodes; the base session stays complete
+  let pruned: PrunedArtifacts | undefined;
+  if (inputs.select.length > 0) {
+    if (event.sessionType === 'pr') {
+      pruned = await writePrunedArtifacts(
+        project.targetPath,
+        inputs.select,
+        inputs.base_target_path || undefined
+      );
+      if (pruned) {
+        await reportSelection(pruned, inputs.select, project.name);
+      }
+    } else {
+      core.info("[Skip] Input 'select' only applies to pull request sessions.");
+    }
+  }
+
+  let sanitized: SanitizedManifest | undefined;
+  try {
+    // Redact secrets from a temporary copy of manifest.json; the target directory is left untouched
+    if (inputs.redact_paths.length > 0 || inputs.redact_patterns.length > 0) {
+      sanitized = await writeSanitizedManifest(
+        pruned?.dir ?? project.targetPath,
+        inputs.redact_paths,
+        inputs.redact_patterns
+      );
+      await reportRedactions(sanitized.redactions, project.name);
+    }
+
+    const overrides: Record<string, string> = {};
+    if (pruned) {
+      overrides['manifest.json'] = path.join(pruned.dir, 'manifest.json');
+      overrides['catalog.json'] = path.join(pruned.dir, 'catalog.json');
+    }
+    if (sanitized) {
+      overrides['manifest.json'] = sanitized.filePath;
+    }
+
+    // Upload DBT artifacts to Recce Cloud
+    return await uploadDbtArtifacts(inputs, event, project, auth, metrics, overrides);
+  } finally {
+    if (sanitized) {
+      await removeSanitizedManifest(sanitized);
+    }
+    if (pruned) {
+      await removePrunedArtifacts(pruned);
+    }
+  }
+}
+
+/**
+ * Add the lineage diff of each project to the job summary and the lineage_diff output
+ * @param results - Results of the projects that were uploaded successfully
+ */
+async function reportLineageDiffs(results: UploadResult[]): Promise<void> {
+  const diffs = results.filter(result => result.lineageDiff !== undefined);
+  if (diffs.length === 0) {
+    return;
+  }
+
+  for (const result of diffs) {
+    const diff = result.lineageDiff as LineageDiff;
+    const projectLabel = result.project.name ? ` of project '${result.project.name}'` : '';
+    core.summary.addDetails(
+      `Lineage diff${projectLabel}: ${summarizeLineageDiff(diff)}`,
+      renderLineageDiff(diff)
+    );
+  }
+  await core.summary.write();
+
+  if (diffs.some(result => result.project.name !== undefined)) {
+    core.setOutput(
+      'lineage_diff',
+      JSON.stringify(
+        Object.fromEntries(diffs.map(result => [result.project.name, result.lineageDiff]))
+      )
+    );
+  } else {
+    core.setOutput('lineage_diff', JSON.stringify(diffs[0].lineageDiff));
+  }
+}
+
+/**
+ * Write the job summary, outputs and pull request comment for the uploaded projects
+ * @param inputs - Action inputs
+ * @param event - Session target resolved from the triggering event
+ * @param results - Results of the projects that were uploaded successfully
+ */
+async function reportUploadResults(
+  inputs: ActionInputs,
+  event: ResolvedEvent,
+  results: UploadResult[]
+): Promise<void> {
+  if (results.length === 0) {
+    return;
+  }
+
+  if (inputs.dry_run) {
+    await reportDryRunPlan({
+      requests: results.flatMap(result => result.dryRunPlan?.requests ?? [])
+    });
+    await reportLineageDiffs(results);
+    return;
+  }
+
+  const context = github.context;
+  const repository = `${context.repo.owner}/${context.repo.repo}`;
+  const sessionUrl = (sessionId?: string): string => `${inputs.web_host}/launch/${sessionId}`;
+  const isMultiProject = results.some(result => result.project.name !== undefined);
+
+  const commitUrl = `${context.serverUrl}/${repository}/commit/${event.headSha}`;
+  const baseCommitMessage = `The base session of branch <code>${event.branch}</code> now reflects commit <a href="${commitUrl}"><code>${event.headSha.slice(0, 7)}</code></a>.`;
+
+  if (isMultiProject) {
+    await core.summary
+      .addHeading('Recce Cloud CI/CD Action Info', 3)
+      .addRaw(
+        event.sessionType === 'pr'
+          ? 'Please use the links below to launch the Recce Cloud session of each project.'
+          : `The base sessions of the following projects have been updated. ${baseCommitMessage}`
+      )
+      .addTable([
+        [
+          { data: 'Project', header: true },
+          { data: 'Target path', header: true },
+          { data: 'Adapter type', header: true },
+          { data: 'Session', header: true }
+        ],
+        ...results.map(result => [
+          result.project.name ?? '.',
+          result.project.targetPath,
+          result.adapterType,
+          event.sessionType === 'pr'
+            ? `<a href="${sessionUrl(result.sessionId)}">Launch Recce Cloud Session</a>`
+            : `<a href="${sessionUrl(result.sessionId)}">Updated</a>`
+        ])
+      ])
+      .write();
+  } else if (event.sessionType === 'pr') {
     await core.summary
       .addHeading('Recce Cloud CI/CD Action Info', 3)
       .addRaw('Please use the link below to launch your Recce Cloud session.')
-      .addLink('Launch Recce Cloud Session', `${inputs.web_host}/launch/${session_id}`)
+      .addLink('Launch Recce Cloud Session', sessionUrl(results[0].sessionId))
       .write();
-
-    core.setOutput('session_id', session_id);
-    return session_id;
   } else {
     await core.summary
       .addHeading('Recce Cloud CI/CD Action Info', 3)
-      .addRaw('The base session has been updated.')
+      .addRaw(`The base session has been updated. ${baseCommitMessage}`)
+      .addTable([
+        [
+          { data: 'Session ID', header: true },
+          { data: 'Adapter type', header: true },
+          { data: 'dbt version', header: true }
+        ],
+        [results[0].sessionId ?? '', results[0].adapterType, results[0].dbtVersion]
+      ])
+      .addLink('Open Base Session', sessionUrl(results[0].sessionId))
       .write();
+  }
 
-    return undefined;
+  const skipped = results.filter(result => result.skipReason !== undefined);
+  if (skipped.length > 0) {
+    await core.summary
+      .addRaw(
+        `<p><b>Upload skipped:</b> ${
+          isMultiProject
+            ? skipped.map(result => `${result.project.name}: ${result.skipReason}`).join('<br>')
+            : skipped[0].skipReason
+        }</p>`
+      )
+      .write();
+  }
+
+  if (event.sessionType === 'pr') {
+    await reportLineageDiffs(results);
+
+    if (inputs.comment_on_pr && event.prNumber !== undefined) {
+      await postSessionComment(inputs.github_token, event.prNumber, {
+        sessions: results.map(result => ({
+          project: result.project.name,
+          sessionUrl: sessionUrl(result.sessionId),
+          adapterType: result.adapterType,
+          dbtVersion: result.dbtVersion
+        })),
+        commitSha: event.headSha,
+        workflow: context.workflow,
+        runNumber: context.runNumber,
+        runUrl: `${context.serverUrl}/${repository}/actions/runs/${context.runId}`,
+        updatedAt: new Date().toISOString()
+      });
+    }
+  }
+
+  // Single-project runs output plain values; multi-project runs output JSON objects keyed by project
+  const setSessionOutput = (name: string, value: (result: UploadResult) => unknown): void => {
+    if (isMultiProject) {
+      core.setOutput(
+        name,
+        JSON.stringify(
+          Object.fromEntries(results.map(result => [result.project.name, value(result)]))
+        )
+      );
+    } else {
+      core.setOutput(name, value(results[0]));
+    }
+  };
+
+  core.setOutput('session_type', event.sessionType);
+  setSessionOutput(isMultiProject ? 'session_ids' : 'session_id', result => result.sessionId);
+  setSessionOutput('session_url', result => sessionUrl(result.sessionId));
+  setSessionOutput('adapter_type', result => result.adapterType);
+  setSessionOutput('dbt_version', result => result.dbtVersion);
+  setSessionOutput('uploaded', result => result.skipReason === undefined);
+  setSessionOutput('upload_skipped_reason', result => result.skipReason ?? '');
+
+  if (inputs.wait_for_ready) {
+    setSessionOutput('session_status', result => result.sessionWait?.status);
+    setSessionOutput('session_processing_seconds', result => result.sessionWait?.durationSeconds);
+  }
+}
+
+/**
+ * Verify the artifacts of a pull request and package them as a workflow artifact,
+ * so that a trusted workflow_run workflow can upload them without exposing credentials
+ * to fork pull requests
+ * @param inputs - Action inputs
+ * @param event - Session target resolved from the triggering event
+ * @param projects - The dbt projects to package
+ * @throws Error if the event is not a pull request or a project fails verification
+ */
+async function collectHandoffPackage(
+  inputs: ActionInputs,
+  event: ResolvedEvent,
+  projects: DbtProject[]
+): Promise<void> {
+  const stagingDir = await fs.mkdtemp(path.join(process.env.RUNNER_TEMP || os.tmpdir(), 'recce-'));
+
+  try {
+    const entries: Array<{ project: DbtProject; artifacts: string[] }> = [];
+    for (const project of projects) {
+      await prepareProject(inputs, project);
+      entries.push({
+        project,
+        artifacts: await findOptionalArtifacts(project.targetPath, inputs.artifacts)
+      });
+    }
+
+    const files = await stageHandoffPackage(stagingDir, event, entries);
+    await uploadHandoffPackage(inputs.handoff_artifact_name, stagingDir, files);
+  } finally {
+    await fs.rm(stagingDir, { recursive: true, force: true });
+  }
+
+  await core.summary
+    .addHeading('Recce Cloud CI/CD Action Info', 3)
+    .addRaw(
+      `The artifacts of pull request #${event.prNumber} were verified and packaged as workflow artifact <code>${inputs.handoff_artifact_name}</code>. A workflow_run workflow with <code>mode: publish</code> uploads them to Recce Cloud.`
+    )
+    .write();
+}
+
+/**
+ * Look up the pull request named by the pr_number input of a workflow_dispatch run and check that
+ * the run was dispatched from its head
+ * @param inputs - Action inputs
+ * @param event - PR session resolved from the dispatch
+ * @returns The event with the base branch and SHA of the pull request
+ * @throws Error if there is no GitHub token or the dispatch does not match the pull request
+ */
+async function lookupDispatchedPullRequest(
+  inputs: ActionInputs,
+  event: ResolvedEvent
+): Promise<ResolvedEvent> {
+  if (!inputs.github_token) {
+    throw new Error("Input 'pr_number' requires a GitHub token to look up the pull request.");
+  }
+
+  const { owner, repo } = github.context.repo;
+  const octokit = github.getOctokit(inputs.github_token);
+  const { data: pullRequest } = await octokit.rest.pulls.get({
+    owner,
+    repo,
+    pull_number: event.prNumber as number
+  });
+
+  return resolveDispatchedPullRequest(
+    event,
+    {
+      number: pullRequest.number,
+      headRef: pullRequest.head.ref,
+      headSha: pullRequest.head.sha,
+      headRepository: pullRequest.head.repo?.full_name,
+      baseRef: pullRequest.base.ref,
+      baseSha: pullRequest.base.sha
+    },
+    `${owner}/${repo}`
+  );
+}
+
+/**
+ * Download and verify the handoff package of the workflow run that triggered a publish run
+ * @param inputs - Action inputs
+ * @returns The pull request session, the packaged projects, their optional artifacts and the
+ *   directory they were extracted to
+ * @throws Error if the event is not workflow_run or the package does not match the pull request
+ */
+async function loadHandoffPackage(inputs: ActionInputs): Promise<{
+  event: ResolvedEvent;
+  projects: DbtProject[];
+  artifacts: string[];
+  packageDir: string;
+}> {
+  const context = github.context;
+  const { owner, repo } = context.repo;
+
+  if (context.eventName !== 'workflow_run') {
+    throw new Error(
+      `Mode 'publish' must run in a workflow_run workflow, not '${context.eventName}'.`
+    );
+  }
+  if (!inputs.github_token) {
+    throw new Error("Mode 'publish' requires a GitHub token to download the handoff package.");
+  }
+
+  const { workflow_run: workflowRun } = context.payload as WorkflowRunContext;
+  if (workflowRun.conclusion !== 'success') {
+    throw new Error(
+      `Workflow run ${workflowRun.id} concluded with '${String(workflowRun.conclusion)}'. Only successful collect runs can be published.`
+    );
+  }
+
+  const packageDir = await downloadHandoffPackage(
+    inputs.handoff_artifact_name,
+    inputs.github_token,
+    owner,
+    repo,
+    workflowRun.id
+  );
+
+  try {
+    const { metadata, projects } = await readHandoffPackage(packageDir);
+    const octokit = github.getOctokit(inputs.github_token);
+    const { data: pullRequest } = await octokit.rest.pulls.get({
+      owner,
+      repo,
+      pull_number: metadata.pr_number
+    });
+    verifyHandoffPackage(metadata, workflowRun, {
+      number: pullRequest.number,
+      state: pullRequest.state,
+      headRef: pullRequest.head.ref,
+      headRepository: pullRequest.head.repo?.full_name
+    });
+
+    return {
+      event: {
+        eventName: context.eventName,
+        sessionType: 'pr',
+        branch: metadata.head_ref,
+        prNumber: metadata.pr_number,
+        headSha: metadata.head_sha,
+        // The base comes from the GitHub API; the package was written by an untrusted run
+        baseRef: pullRequest.base.ref,
+        baseSha: pullRequest.base.sha
+      },
+      projects,
+      // Upload the optional artifacts the collect run packaged, not this run's artifacts input
+      artifacts: [...new Set(metadata.projects.flatMap(project => project.artifacts))].filter(
+        name => OPTIONAL_ARTIFACTS.includes(name)
+      ),
+      packageDir
+    };
+  } catch (error) {
+    await fs.rm(packageDir, { recursive: true, force: true });
+    throw error;
+  }
+}
+
+/**
+ * Close the Recce sessions of a closed pull request instead of uploading artifacts.
+ * With promote_on_merge, the artifacts of a pull request merged into a base branch are
+ * promoted into the base session; otherwise the sessions are archived.
+ * @param inputs - Action inputs
+ * @param event - Session target of the closed pull request
+ * @param projects - The dbt projects whose sessions to close; empty to close every session of the pull request
+ * @throws Error if any session could not be closed
+ */
+async function closePullRequestSessions(
+  inputs: ActionInputs,
+  event: ResolvedEvent,
+  projects: DbtProject[]
+): Promise<void> {
+  const closed = event.closed;
+  if (!closed || event.prNumber === undefined) {
+    return;
+  }
+
+  // Without any resolved project, a single request without a project closes every session
+  const targets: DbtProject[] =
+    projects.length > 0 ? projects : [{ targetPath: inputs.dbt_target_path }];
+
+  const promote =
+    inputs.promote_on_merge &&
+    closed.merged &&
+    event.baseRef !== undefined &&
+    isBaseBranch(event.baseRef, inputs.base_branch);
+  if (inputs.promote_on_merge && closed.merged && !promote) {
+    core.warning(
+      `[Skip] Pull request #${event.prNumber} was merged into '${event.baseRef}', which does not match base_branch '${inputs.base_branch}'. Its artifacts will not be promoted.`
+    );
+  }
+
+  const context = github.context;
+  const repository = `${context.repo.owner}/${context.repo.repo}`;
+  const requests: CloseSessionRequest[] = targets.map(project => ({
+    branch: event.branch,
+    pr_number: event.prNumber as number,
+    merged: closed.merged,
+    promote_to_base: promote,
+    head_sha: event.headSha,
+    merge_commit_sha: closed.mergeCommitSha,
+    base_ref: event.baseRef,
+    project: project.name
+  }));
+
+  // Dry runs never call Recce Cloud, so they do not need (or request) credentials
+  const auth: ResolvedAuth = inputs.dry_run
+    ? { mode: inputs.auth_mode, token: '' }
+    : await resolveAuth(inputs);
+  const client = new RecceCloudClient({
+    apiHost: inputs.api_host,
+    repository,
+    token: auth.token,
+    retryPolicy: { maxRetries: inputs.max_retries, initialDelayMs: inputs.retry_delay * 1000 }
+  });
+
+  if (inputs.dry_run) {
+    await reportDryRunPlan({
+      requests: requests.map(body => ({
+        method: 'POST',
+        url: client.apiUrl('close-recce-session'),
+        headers: { Authorization: `Bearer ${REDACTED}`, 'Content-Type': 'application/json' },
+        body
+      }))
+    });
+    core.setOutput('skipped', 'false');
+    return;
+  }
+
+  core.info(
+    `[Close] Pull request #${event.prNumber} was ${closed.merged ? 'merged' : 'closed'}. ${promote ? 'Promoting' : 'Archiving'} its Recce session${targets.length > 1 ? 's' : ''}...`
+  );
+  const settled = await mapWithConcurrency(requests, inputs.max_concurrency, async request => {
+    try {
+      const response = await client.closeSession(request);
+      core.info(
+        `[Close] ${request.project ? `${request.project}: ` : ''}Recce session ${response.status}.`
+      );
+      return response;
+    } catch (error) {
+      await logDetailedError(
+        'Failed to close Recce session',
+        buildErrorContext(
+          repository,
+          event.branch,
+          context.eventName,
+          client.apiUrl('close-recce-session'),
+          request.project,
+          auth.mode
+        ),
+        error
+      );
+      throw error;
+    }
+  });
+
+  const closedSessions: Array<[DbtProject, CloseSessionResponse]> = [];
+  const failures: string[] = [];
+  const failureReasons: Array<[string | undefined, FailureReason]> = [];
+  settled.forEach((outcome, index) => {
+    if (outcome.status === 'fulfilled') {
+      closedSessions.push([targets[index], outcome.value]);
+    } else {
+      const reason: unknown = outcome.reason;
+      const message = reason instanceof Error ? reason.message : String(reason);
+      failures.push(targets.length > 1 ? `${targets[index].targetPath}: ${message}` : message);
+      failureReasons.push([targets[index].name, classifyError(reason, auth.mode).reason]);
+    }
+  });
+
+  if (closedSessions.length > 0) {
+    const sessionUrl = (sessionId?: string): string => `${inputs.web_host}/launch/${sessionId}`;
+    const isMultiProject = targets.length > 1;
+    const outcome = (response: CloseSessionResponse): string =>
+      response.base_session_id
+        ? `${response.status}, artifacts promoted to <a href="${sessionUrl(response.base_session_id)}">the base session of <code>${event.baseRef}</code></a>`
+        : response.status;
+
+    core.summary
+      .addHeading('Recce Cloud CI/CD Action Info', 3)
+      .addRaw(
+        `Pull request #${event.prNumber} was ${closed.merged ? 'merged' : 'closed without merging'}, so no artifacts were uploaded. ${
+          promote
+            ? 'Its Recce session was closed and its artifacts promoted into the base session.'
+            : 'Its Recce session was archived.'
+        }`
+      );
+    if (isMultiProject) {
+      core.summary.addTable([
+        [
+          { data: 'Project', header: true },
+          { data: 'Session', header: true },
+          { data: 'Outcome', header: true }
+        ],
+        ...closedSessions.map(([project, response]) => [
+          project.name ?? '.',
+          response.session_id ?? '',
+          outcome(response)
+        ])
+      ]);
+    } else {
+      core.summary.addRaw(`<p><b>Session:</b> ${outcome(closedSessions[0][1])}</p>`);
+    }
+    await core.summary.write();
+
+    const setSessionOutput = (
+      name: string,
+      value: (response: CloseSessionResponse) => unknown
+    ): void => {
+      if (isMultiProject) {
+        core.setOutput(
+          name,
+          JSON.stringify(
+            Object.fromEntries(
+              closedSessions.map(([project, response]) => [project.name, value(response)])
+            )
+          )
+        );
+      } else {
+        core.setOutput(name, value(closedSessions[0][1]));
+      }
+    };
+
+    core.setOutput('session_type', event.sessionType);
+    setSessionOutput(
+      isMultiProject ? 'session_ids' : 'session_id',
+      response => response.session_id
+    );
+    setSessionOutput('session_status', response => response.status);
+  }
+
+  if (failures.length > 0) {
+    throw new ActionFailureError(
+      targets.length > 1
+        ? `Failed to close ${failures.length} of ${targets.length} Recce sessions:\n${failures.join('\n')}`
+        : failures[0],
+      targets.length > 1 ? JSON.stringify(Object.fromEntries(failureReasons)) : failureReasons[0][1]
+    );
+  }
+
+  core.setOutput('skipped', 'false');
+  core.info('Action completed successfully!');
+}
+
+/**
+ * Skip or fail a base session update triggered from a branch that is not a base branch
+ * @param inputs - Action inputs
+ * @param event - Session target resolved from the triggering event
+ * @throws Error if base_branch_mismatch is 'fail'
+ */
+async function handleBaseBranchMismatch(inputs: ActionInputs, event: ResolvedEvent): Promise<void> {
+  const message = `Branch '${event.branch}' does not match base_branch '${inputs.base_branch}'. The base session was not updated.`;
+
+  if (inputs.base_branch_mismatch === 'fail') {
+    core.error(`[Error] ${message}`);
+    await core.summary.addHeading('Recce Cloud CI/CD Action Error', 3).addRaw(message).write();
+    throw new Error(message);
   }
+
+  core.warning(`[Skip] ${message}`);
+  await core.summary
+    .addHeading('Recce Cloud CI/CD Action Info', 3)
+    .addRaw(`${message} Run this action from a base branch or a pull request to upload artifacts.`)
+    .write();
+
+  core.setOutput('skipped', 'true');
 }
 
 /**
- * Get and validate action inputs
+ * Create or update the sticky session comment on the pull request.
+ * Failures are reported as warnings so that a missing `pull-requests: write`
+ * permission does not fail an otherwise successful upload.
+ * @param githubToken - GitHub token used to call the GitHub API
+ * @param prNumber - Pull request number
+ * @param details - Session and run details to render
+ */
+async function postSessionComment(
+  githubToken: string,
+  prNumber: number,
+  details: SessionCommentDetails
+): Promise<void> {
+  const { owner, repo } = github.context.repo;
+
+  if (!githubToken) {
+    core.warning('Skipping the Recce session comment because no GitHub token is available.');
+    return;
+  }
+
+  try {
+    const octokit = github.getOctokit(githubToken);
+    const body = buildSessionComment(details);
+    const result = await upsertPullRequestComment(octokit, owner, repo, prNumber, body);
+    core.info(`[Done] Recce session comment ${result} on pull request #${prNumber}.`);
+  } catch (error) {
+    core.warning(
+      `Failed to post Recce session comment on pull request #${prNumber}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * Read a boolean input, falling back to a default when it is not set
+ * @param name - Input name
+ * @param defaultValue - Value used when the input is empty
+ * @returns Parsed boolean value
+ * @throws Error if the input is not a valid boolean
+ */
+function getBooleanInput(name: string, defaultValue: boolean): boolean {
+  const value = core.getInput(name).trim().toLowerCase();
+
+  if (!value) {
+    return defaultValue;
+  }
+  if (['true', 'yes', '1'].includes(value)) {
+    return true;
+  }
+  if (['false', 'no', '0'].includes(value)) {
+    return false;
+  }
+
+  throw new Error(`Input '${name}' must be a boolean (true or false), got '${value}'.`);
+}
+
+/**
+ * Read an input restricted to a fixed set of values, falling back to a default when it is not set
+ * @param name - Input name
+ * @param choices - Allowed values
+ * @param defaultValue - Value used when the input is empty
+ * @returns The selected value
+ * @throws Error if the input is not one of the allowed values
+ */
+function getChoiceInput<T extends string>(name: string, choices: readonly T[], defaultValue: T): T {
+  const value = core.getInput(name).trim().toLowerCase();
+
+  if (!value) {
+    return defaultValue;
+  }
+  if (!(choices as readonly string[]).includes(value)) {
+    throw new Error(`Input '${name}' must be one of ${choices.join(', ')}, got '${value}'.`);
+  }
+
+  return value as T;
+}
+
+/**
+ * Read a non-negative integer input, falling back to a default when it is not set
+ * @param name - Input name
+ * @param defaultValue - Value used when the input is empty
+ * @returns Parsed integer value
+ * @throws Error if the input is not a non-negative integer
+ */
+function getIntegerInput(name: string, defaultValue: number): number {
+  const value = core.getInput(name).trim();
+
+  if (!value) {
+    return defaultValue;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`Input '${name}' must be a non-negative integer, got '${value}'.`);
+  }
+
+  return parsed;
+}
+
+/**
+ * Get and validate action inputs, filling in unset inputs from RECCE_* environment variables
+ * and the config file
  * @returns Validated action inputs
- * @throws Error if required inputs are missing
+ * @throws Error if required inputs are missing or the config file is invalid
  */
-function getInputs(): ActionInputs {
-  const dbtTargetPath = core.getInput('dbt_target_path', { required: true });
+async function getInputs(): Promise<ActionInputs> {
+  const configFile = core.getInput('config_file');
+  const sources = applyConfig(
+    await loadConfigFile(configFile, process.env.GITHUB_WORKSPACE || process.cwd())
+  );
+
+  const mode = getChoiceInput<ActionMode>('mode', ['upload', 'collect', 'publish'], 'upload');
+  const handoffArtifactName = core.getInput('handoff_artifact_name') || 'recce-dbt-artifacts';
+  const dbtTargetPath = core.getInput('dbt_target_path') || 'target';
+  const generateArtifacts = getBooleanInput('generate_artifacts', false);
+  const generateCommand = core.getInput('generate_command').trim() || 'dbt docs generate';
   const apiHost = core.getInput('api_host') || 'https://cloud.datarecce.io';
   const webHost = core.getInput('web_host') || 'https://cloud.datarecce.io';
   const baseBranch = core.getInput('base_branch') || 'main';
   const githubToken = process.env.GITHUB_TOKEN || core.getInput('github_token');
+  const authMode = getChoiceInput<AuthMode>(
+    'auth_mode',
+    ['github_token', 'oidc', 'api_key'],
+    'github_token'
+  );
+  const oidcAudience = core.getInput('oidc_audience') || apiHost;
+  const apiKey = core.getInput('api_key');
+  const commentOnPr = getBooleanInput('comment_on_pr', true);
+  const promoteOnMerge = getBooleanInput('promote_on_merge', false);
+  const reportPath = core.getInput('report_path');
+  const prNumberInput = core.getInput('pr_number').trim();
+  const validationMode = getChoiceInput<ValidationMode>(
+    'validation_mode',
+    ['strict', 'warn', 'off'],
+    'warn'
+  );
+  const compressArtifacts = getBooleanInput('compress_artifacts', true);
+  const skipUnchanged = getBooleanInput('skip_unchanged', true);
+  const dryRun = getBooleanInput('dry_run', false);
+  const maxRetries = getIntegerInput('max_retries', 3);
+  const retryDelay = getIntegerInput('retry_delay', 1);
+  const artifacts = parseArtifactsInput(core.getInput('artifacts'));
+  const maxConcurrency = Math.max(1, getIntegerInput('max_concurrency', 2));
+  const baseTargetPath = core.getInput('base_target_path');
+  const select = parseSelectInput(core.getInput('select'));
+  const redactPaths = parseRedactPaths(core.getInput('redact_paths'));
+  const redactPatterns = parseRedactPatterns(core.getInput('redact_patterns'));
+  const waitForReady = getBooleanInput('wait_for_ready', false);
+  const waitTimeout = getIntegerInput('wait_timeout', 600);
+  const baseBranchMismatch = getChoiceInput<BaseBranchMismatchAction>(
+    'base_branch_mismatch',
+    ['skip', 'fail'],
+    'skip'
+  );
 
-  if (!githubToken) {
+  if (authMode === 'github_token' && !githubToken) {
     throw new Error(
       'GITHUB_TOKEN is required. Please set it in your workflow or pass it as an input.'
     );
   }
 
-  return {
+  if (requiresState(select) && !baseTargetPath) {
+    throw new Error("Input 'select' uses state: selectors, which require 'base_target_path'.");
+  }
+
+  if (authMode === 'api_key' && !apiKey) {
+    throw new Error("Input 'api_key' is required when auth_mode is 'api_key'.");
+  }
+
+  let prNumber: number | undefined;
+  if (prNumberInput) {
+    prNumber = Number(prNumberInput);
+    if (!Number.isInteger(prNumber) || prNumber <= 0) {
+      throw new Error(`Input 'pr_number' must be a positive integer, got '${prNumberInput}'.`);
+    }
+  }
+
+  const inputs: ActionInputs = {
+    mode,
+    handoff_artifact_name: handoffArtifactName,
     dbt_target_path: dbtTargetPath,
+    generate_artifacts: generateArtifacts,
+    generate_command: generateCommand,
     api_host: apiHost,
     web_host: webHost,
     base_branch: baseBranch,
-    github_token: githubToken
+    base_branch_mismatch: baseBranchMismatch,
+    validation_mode: validationMode,
+    compress_artifacts: compressArtifacts,
+    skip_unchanged: skipUnchanged,
+    dry_run: dryRun,
+    max_retries: maxRetries,
+    retry_delay: retryDelay,
+    artifacts,
+    select,
+    max_concurrency: maxConcurrency,
+    base_target_path: baseTargetPath,
+    redact_paths: redactPaths,
+    redact_patterns: redactPatterns,
+    wait_for_ready: waitForReady,
+    wait_timeout: waitTimeout,
+    github_token: githubToken,
+    auth_mode: authMode,
+    oidc_audience: oidcAudience,
+    api_key: apiKey,
+    comment_on_pr: commentOnPr,
+    promote_on_merge: promoteOnMerge,
+    report_path: reportPath,
+    config_file: configFile,
+    pr_number: prNumber
   };
+
+  logEffectiveConfig(inputs, sources);
+  return inputs;
 }
 
 /**
@@ -315,16 +1420,73 @@ function getInputs(): ActionInputs {
 export async function run(): Promise<void> {
   try {
     // Get and validate inputs
-    const inputs = getInputs();
+    const inputs = await getInputs();
+
+    // Publish runs upload the package of a collect run instead of local artifacts
+    if (inputs.mode === 'publish') {
+      const handoff = await loadHandoffPackage(inputs);
+      try {
+        await uploadProjects(
+          { ...inputs, artifacts: handoff.artifacts },
+          handoff.event,
+          handoff.projects
+        );
+      } finally {
+        await fs.rm(handoff.packageDir, { recursive: true, force: true });
+      }
+      return;
+    }
+
+    // Step 1: Resolve the session target from the triggering event
+    let event = resolveEvent(github.context, inputs);
+    if (event.eventName === 'workflow_dispatch' && event.sessionType === 'pr') {
+      event = await lookupDispatchedPullRequest(inputs, event);
+    }
 
-    // Step 1: Verify DBT manifest files
-    await verifyDbtManifestFiles(inputs.dbt_target_path);
+    // Step 2: Only update the base session from a configured base branch
+    if (event.sessionType === 'base' && !isBaseBranch(event.branch, inputs.base_branch)) {
+      await handleBaseBranchMismatch(inputs, event);
+      return;
+    }
+
+    const workspace = process.env.GITHUB_WORKSPACE || process.cwd();
 
-    // Step 2: Upload DBT artifacts to Recce Cloud
-    await uploadDbtArtifacts(inputs);
+    // Closed pull requests have nothing left to review, so their sessions are closed instead
+    if (event.closed) {
+      // Collect runs have no credentials, so closing is left to a trusted workflow
+      if (inputs.mode === 'collect') {
+        core.info(
+          `[Skip] Pull request #${event.prNumber} was closed. Sessions are not closed in collect mode; handle closed events in a trusted workflow.`
+        );
+        core.setOutput('skipped', 'true');
+        return;
+      }
+      // Closing needs only the project names, not the artifacts
+      await closePullRequestSessions(
+        inputs,
+        event,
+        await resolveDbtProjects(inputs.dbt_target_path, workspace, false)
+      );
+      return;
+    }
 
-    core.info('Action completed successfully!');
+    const projects = await resolveDbtProjects(inputs.dbt_target_path, workspace);
+
+    // Collect runs package the verified artifacts for a later publish run
+    if (inputs.mode === 'collect') {
+      await collectHandoffPackage(inputs, event, projects);
+      core.setOutput('skipped', 'false');
+      core.info('Action completed successfully!');
+      return;
+    }
+
+    // Step 3: Verify, validate, upload and report each dbt project
+    await uploadProjects(inputs, event, projects);
   } catch (error) {
+    core.setOutput(
+      'failure_reason',
+      error instanceof ActionFailureError ? error.failureReason : classifyError(error).reason
+    );
     if (error instanceof Error) {
       core.setFailed(error.message);
     } else {
@@ -333,6 +1495,99 @@ export async function run(): Promise<void> {
   }
 }
 
+/**
+ * Verify, validate and upload each dbt project, then report the sessions
+ * @param inputs - Action inputs
+ * @param event - Session target
+ * @param projects - The dbt projects to upload
+ * @throws Error if any project failed, or state: selectors are used with several projects
+ */
+async function uploadProjects(
+  inputs: ActionInputs,
+  event: ResolvedEvent,
+  projects: DbtProject[]
+): Promise<void> {
+  // There is a single base_target_path, so state: selectors cannot compare several projects
+  if (event.sessionType === 'pr' && projects.length > 1 && requiresState(inputs.select)) {
+    throw new Error(
+      "Input 'select' uses state: selectors, which only apply to single-project runs; 'dbt_target_path' resolves to several projects."
+    );
+  }
+
+  // Dry runs never call Recce Cloud, so they do not need (or request) credentials
+  const startedAt = Date.now();
+  const auth: ResolvedAuth = inputs.dry_run
+    ? { mode: inputs.auth_mode, token: '' }
+    : await resolveAuth(inputs);
+  const recorders = projects.map(() => new MetricsRecorder());
+  const settled = await mapWithConcurrency(projects, inputs.max_concurrency, (project, index) =>
+    processProject(inputs, event, project, auth, recorders[index])
+  );
+
+  const results: UploadResult[] = [];
+  const failures: string[] = [];
+  const failureReasons: Array<[string | undefined, FailureReason]> = [];
+  const projectMetrics: ProjectMetrics[] = [];
+  settled.forEach((outcome, index) => {
+    if (outcome.status === 'fulfilled') {
+      const result = outcome.value;
+      results.push(result);
+      projectMetrics.push(
+        recorders[index].toProjectMetrics(
+          projects[index],
+          inputs.dry_run ? 'dry_run' : result.skipReason !== undefined ? 'skipped' : 'uploaded',
+          result.sessionId
+        )
+      );
+    } else {
+      const reason: unknown = outcome.reason;
+      const message = reason instanceof Error ? reason.message : String(reason);
+      const failureReason = classifyError(reason, auth.mode).reason;
+      failures.push(projects.length > 1 ? `${projects[index].targetPath}: ${message}` : message);
+      failureReasons.push([projects[index].name, failureReason]);
+      projectMetrics.push(
+        recorders[index].toProjectMetrics(projects[index], 'failed', undefined, failureReason)
+      );
+    }
+  });
+
+  // Sessions that Recce Cloud failed to process (or did not process in time) fail the action
+  results.forEach(result => {
+    const wait = result.sessionWait;
+    if (wait && wait.state !== 'ready') {
+      const message =
+        wait.state === 'timeout'
+          ? `Session ${result.sessionId} was still ${wait.status} after ${wait.durationSeconds}s.`
+          : `Recce Cloud failed to process session ${result.sessionId}: ${wait.message ?? wait.status}`;
+      failures.push(projects.length > 1 ? `${result.project.targetPath}: ${message}` : message);
+      failureReasons.push([
+        result.project.name,
+        wait.state === 'timeout' ? 'processing_timeout' : 'processing_failed'
+      ]);
+    }
+  });
+
+  // Report sessions and metrics, even if some projects failed
+  await reportUploadResults(inputs, event, results);
+  await reportRunMetrics(buildRunReport(event, projectMetrics, startedAt), inputs.report_path);
+
+  if (failures.length > 0) {
+    // Like the session outputs, several projects report a JSON object keyed by project
+    throw new ActionFailureError(
+      projects.length > 1
+        ? `Failed to upload ${failures.length} of ${projects.length} dbt projects:\n${failures.join('\n')}`
+        : failures[0],
+      projects.length > 1
+        ? JSON.stringify(Object.fromEntries(failureReasons))
+        : failureReasons[0][1]
+    );
+  }
+
+  core.setOutput('skipped', 'false');
+
+  core.info('Action completed successfully!');
+}
+
 // Run the action if this is the main module
 if (require.main === module) {
   void run();
@@ -0,0 +1,119 @@
+import * as core from '@actions/core';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { MetricsRecorder, reportRunMetrics } from './metrics';
+import type { RunReport } from './types';
+
+jest.mock('@actions/core');
+
+const mockedCore = core as jest.Mocked<typeof core>;
+
+describe('Run Metrics', () => {
+  const testDir = path.join(__dirname, '__test_metrics__');
+  const project = { targetPath: 'target' };
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should time phases and attribute retries by request label', async () => {
+    const metrics = new MetricsRecorder();
+
+    await metrics.time('verify', () => Promise.resolve());
+    await metrics.time(
+      'upload manifest.json',
+      phase => {
+        metrics.countRetry('Upload manifest.json');
+        phase.size_bytes = 2048;
+        phase.uploaded_bytes = 512;
+        return Promise.resolve();
+      },
+      'Upload manifest.json'
+    );
+    await expect(
+      metrics.time('complete', () => Promise.reject(new Error('boom')), 'upload-completed')
+    ).rejects.toThrow('boom');
+
+    const report = metrics.toProjectMetrics(project, 'failed', undefined, 'server_error');
+
+    expect(report).toMatchObject({
+      target_path: 'target',
+      outcome: 'failed',
+      failure_reason: 'server_error',
+      uploaded_bytes: 512,
+      retries: 1
+    });
+    expect(report.phases.map(({ name, retries, failed }) => [name, retries, failed])).toEqual([
+      ['verify', 0, false],
+      ['upload manifest.json', 1, false],
+      ['complete', 0, true]
+    ]);
+    expect(report.phases[1]).toMatchObject({ size_bytes: 2048, uploaded_bytes: 512 });
+  });
+
+  it('should not count time spent queued before the project started', () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+    const metrics = new MetricsRecorder();
+
+    now.mockReturnValue(5000);
+    metrics.start();
+    now.mockReturnValue(5750);
+
+    expect(metrics.toProjectMetrics(project, 'uploaded', 'session-1').duration_ms).toBe(750);
+  });
+
+  it('should render the summary, set outputs and write the report file', async () => {
+    const mockSummary = {
+      addHeading: jest.fn().mockReturnThis(),
+      addRaw: jest.fn().mockReturnThis(),
+      addTable: jest.fn().mockReturnThis(),
+      write: jest.fn().mockResolvedValue(undefined)
+    };
+    mockedCore.summary = mockSummary as unknown as typeof core.summary;
+
+    const report: RunReport = {
+      version: 1,
+      repository: 'owner/repo',
+      workflow: 'CI',
+      run_id: 1,
+      run_attempt: 1,
+      event: 'push',
+      session_type: 'base',
+      branch: 'main',
+      head_sha: 'abc123',
+      started_at: '2026-01-01T00:00:00.000Z',
+      duration_ms: 1500,
+      projects: [
+        {
+          target_path: 'target',
+          outcome: 'uploaded',
+          session_id: 'session-1',
+          duration_ms: 1500,
+          uploaded_bytes: 512,
+          retries: 0,
+          phases: [
+            {
+              name: 'upload manifest.json',
+              duration_ms: 250,
+              retries: 0,
+              failed: false,
+              size_bytes: 2048,
+              uploaded_bytes: 512
+            }
+          ]
+        }
+      ]
+    };
+    const reportPath = path.join(testDir, 'reports', 'recce.json');
+
+    await reportRunMetrics(report, reportPath);
+
+    expect(mockSummary.addTable).toHaveBeenCalledWith([
+      expect.any(Array),
+      ['upload manifest.json', '0.25s', '2.0 KB (512 B sent)', '0']
+    ]);
+    expect(mockedCore.setOutput).toHaveBeenCalledWith('uploaded_bytes', 512);
+    expect(mockedCore.setOutput).toHaveBeenCalledWith('report_path', reportPath);
+    expect(JSON.parse(await fs.readFile(reportPath, 'utf8'))).toEqual(report);
+  });
+});
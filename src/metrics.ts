@@ -0,0 +1,204 @@
+import * as core from '@actions/core';
+import * as github from '@actions/github';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { formatBytes } from './upload';
+import type {
+  DbtProject,
+  FailureReason,
+  PhaseMetric,
+  ProjectMetrics,
+  ProjectOutcome,
+  ResolvedEvent,
+  RunReport
+} from './types';
+
+/**
+ * Collects the timing, file sizes and retry counts of one project upload
+ */
+export class MetricsRecorder {
+  private startedAt = Date.now();
+  private readonly phases: Array<{ metric: PhaseMetric; retryLabel: string }> = [];
+  private readonly retryCounts = new Map<string, number>();
+
+  /**
+   * Restart the project clock; call when the project leaves the concurrency queue
+   */
+  start(): void {
+    this.startedAt = Date.now();
+  }
+
+  /**
+   * Count a retry; pass as the onRetry callback of the retry policy
+   * @param label - Label of the operation being retried, as passed to withRetry
+   */
+  countRetry(label: string): void {
+    this.retryCounts.set(label, (this.retryCounts.get(label) ?? 0) + 1);
+  }
+
+  /**
+   * Time a phase, recording it even if it fails
+   * @param name - Phase name shown in the summary and report (e.g., 'touch')
+   * @param operation - Phase to run; it may set the file sizes on the phase metric
+   * @param retryLabel - withRetry label of the requests made by the phase, to attribute retries
+   * @returns The operation result
+   */
+  async time<T>(
+    name: string,
+    operation: (phase: PhaseMetric) => Promise<T>,
+    retryLabel = name
+  ): Promise<T> {
+    const metric: PhaseMetric = { name, duration_ms: 0, retries: 0, failed: false };
+    this.phases.push({ metric, retryLabel });
+
+    const start = Date.now();
+    try {
+      return await operation(metric);
+    } catch (error) {
+      metric.failed = true;
+      throw error;
+    } finally {
+      metric.duration_ms = Date.now() - start;
+    }
+  }
+
+  /**
+   * Summarize the recorded phases of a project
+   * @param project - The dbt project
+   * @param outcome - How the upload ended
+   * @param sessionId - Session the artifacts were uploaded to, if any
+   * @param failureReason - Why the upload failed, if it did
+   * @returns The project metrics for the run report
+   */
+  toProjectMetrics(
+    project: DbtProject,
+    outcome: ProjectOutcome,
+    sessionId?: string,
+    failureReason?: FailureReason
+  ): ProjectMetrics {
+    const phases = this.phases.map(({ metric, retryLabel }) => ({
+      ...metric,
+      retries: this.retryCounts.get(retryLabel) ?? 0
+    }));
+
+    return {
+      project: project.name,
+      target_path: project.targetPath,
+      outcome,
+      session_id: sessionId,
+      failure_reason: failureReason,
+      duration_ms: Date.now() - this.startedAt,
+      uploaded_bytes: phases.reduce((total, phase) => total + (phase.uploaded_bytes ?? 0), 0),
+      retries: [...this.retryCounts.values()].reduce((total, count) => total + count, 0),
+      phases
+    };
+  }
+}
+
+/**
+ * Build the run report from the metrics of each project
+ * @param event - Session target resolved from the triggering event
+ * @param projects - Metrics of each project, including failed ones
+ * @param startedAt - When the upload run started, in milliseconds
+ * @returns The run report
+ */
+export function buildRunReport(
+  event: ResolvedEvent,
+  projects: ProjectMetrics[],
+  startedAt: number
+): RunReport {
+  const context = github.context;
+
+  return {
+    version: 1,
+    repository: `${context.repo.owner}/${context.repo.repo}`,
+    workflow: context.workflow,
+    run_id: context.runId,
+    run_attempt: context.runAttempt,
+    event: event.eventName,
+    session_type: event.sessionType,
+    branch: event.branch,
+    pr_number: event.prNumber,
+    head_sha: event.headSha,
+    started_at: new Date(startedAt).toISOString(),
+    duration_ms: Date.now() - startedAt,
+    projects
+  };
+}
+
+/**
+ * Format a duration for the summary table
+ * @param ms - Duration in milliseconds
+ * @returns Duration in seconds (e.g., '1.25s')
+ */
+function formatDuration(ms: number): string {
+  return `${(ms / 1000).toFixed(2)}s`;
+}
+
+/**
+ * Write the run metrics to the job summary and outputs, and the report to reportPath if set
+ * @param report - Run report
+ * @param reportPath - Path of the JSON report file; empty to skip writing it
+ */
+export async function reportRunMetrics(report: RunReport, reportPath: string): Promise<void> {
+  const isMultiProject = report.projects.some(project => project.project !== undefined);
+
+  await core.summary
+    .addHeading('Recce Cloud CI/CD Action Metrics', 3)
+    .addTable([
+      [
+        ...(isMultiProject ? [{ data: 'Project', header: true }] : []),
+        { data: 'Phase', header: true },
+        { data: 'Duration', header: true },
+        { data: 'Size', header: true },
+        { data: 'Retries', header: true }
+      ],
+      ...report.projects.flatMap(project =>
+        project.phases.map(phase => [
+          ...(isMultiProject ? [project.project ?? '.'] : []),
+          phase.failed ? `${phase.name} (failed)` : phase.name,
+          formatDuration(phase.duration_ms),
+          phase.size_bytes === undefined
+            ? ''
+            : phase.uploaded_bytes !== undefined && phase.uploaded_bytes !== phase.size_bytes
+              ? `${formatBytes(phase.size_bytes)} (${formatBytes(phase.uploaded_bytes)} sent)`
+              : formatBytes(phase.size_bytes),
+          String(phase.retries)
+        ])
+      )
+    ])
+    .addRaw(`<p><b>Total:</b> ${formatDuration(report.duration_ms)}</p>`)
+    .write();
+
+  // Single-project runs output plain values; multi-project runs output JSON objects keyed by project
+  const setProjectOutput = (name: string, value: (project: ProjectMetrics) => unknown): void => {
+    if (isMultiProject) {
+      core.setOutput(
+        name,
+        JSON.stringify(
+          Object.fromEntries(report.projects.map(project => [project.project, value(project)]))
+        )
+      );
+    } else {
+      core.setOutput(name, value(report.projects[0]));
+    }
+  };
+
+  setProjectOutput('upload_duration_ms', project => project.duration_ms);
+  setProjectOutput('uploaded_bytes', project => project.uploaded_bytes);
+  setProjectOutput('retry_count', project => project.retries);
+
+  // A report that cannot be written must not hide the outcome of the upload itself
+  if (reportPath) {
+    try {
+      await fs.mkdir(path.dirname(path.resolve(reportPath)), { recursive: true });
+      await fs.writeFile(reportPath, `${JSON.stringify(report, null, 2)}\n`);
+      core.info(`[Done] Run report written to '${reportPath}'.`);
+      core.setOutput('report_path', path.resolve(reportPath));
+    } catch (error) {
+      core.warning(
+        `Failed to write the run report to '${reportPath}': ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+}
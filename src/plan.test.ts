@@ -0,0 +1,55 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { buildDryRunPlan, REDACTED } from './plan';
+
+jest.mock('@actions/core');
+
+describe('Dry Run Plan', () => {
+  const testDir = path.join(__dirname, '__test_plan__');
+
+  beforeEach(async () => {
+    await fs.mkdir(testDir, { recursive: true });
+    await fs.writeFile(path.join(testDir, 'manifest.json'), '{"metadata":{}}');
+    await fs.writeFile(path.join(testDir, 'catalog.json'), '{}');
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should list touch, upload and complete calls with file sizes', async () => {
+    const plan = await buildDryRunPlan(
+      'https://cloud.datarecce.io',
+      'owner/repo',
+      { branch: 'feature', pr_number: 1, adapter_type: 'postgres' },
+      [path.join(testDir, 'manifest.json'), path.join(testDir, 'catalog.json')]
+    );
+
+    expect(plan.requests.map(request => `${request.method} ${request.url}`)).toEqual([
+      'POST https://cloud.datarecce.io/api/v2/github/owner/repo/touch-recce-session',
+      'PUT (presigned URL for manifest.json returned by touch-recce-session)',
+      'PUT (presigned URL for catalog.json returned by touch-recce-session)',
+      'POST https://cloud.datarecce.io/api/v2/github/owner/repo/upload-completed'
+    ]);
+    expect(plan.requests[0].body).toEqual({
+      branch: 'feature',
+      pr_number: 1,
+      adapter_type: 'postgres'
+    });
+    expect(plan.requests[1].size_bytes).toBe(15);
+    expect(plan.requests[2].size_bytes).toBe(2);
+  });
+
+  it('should redact the token', async () => {
+    const plan = await buildDryRunPlan(
+      'https://cloud.datarecce.io',
+      'owner/repo',
+      { branch: 'main', adapter_type: 'postgres' },
+      []
+    );
+
+    for (const request of plan.requests) {
+      expect(request.headers?.Authorization).toBe(`Bearer ${REDACTED}`);
+    }
+  });
+});
@@ -0,0 +1,96 @@
+import * as core from '@actions/core';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { formatBytes } from './upload';
+import type { DryRunPlan, PlannedRequest, TouchSessionRequest } from './types';
+
+/**
+ * Placeholder shown instead of the authentication token in dry-run output
+ */
+export const REDACTED = '***';
+
+/**
+ * Build the list of API calls an upload would make, without making them
+ * @param apiHost - Recce Cloud API host
+ * @param repository - Repository in 'owner/repo' form
+ * @param requestBody - Request body for touch-recce-session
+ * @param artifactPaths - Paths of the artifacts that would be uploaded
+ * @returns The planned requests with the token redacted
+ */
+export async function buildDryRunPlan(
+  apiHost: string,
+  repository: string,
+  requestBody: TouchSessionRequest,
+  artifactPaths: string[]
+): Promise<DryRunPlan> {
+  const headers = {
+    Authorization: `Bearer ${REDACTED}`,
+    'Content-Type': 'application/json'
+  };
+
+  const uploads: PlannedRequest[] = await Promise.all(
+    artifactPaths.map(async filePath => {
+      const { size } = await fs.stat(filePath);
+      return {
+        method: 'PUT',
+        url: `(presigned URL for ${path.basename(filePath)} returned by touch-recce-session)`,
+        file: filePath,
+        size_bytes: size
+      };
+    })
+  );
+
+  return {
+    requests: [
+      {
+        method: 'POST',
+        url: `${apiHost}/api/v2/github/${repository}/touch-recce-session`,
+        headers,
+        body: requestBody
+      },
+      ...uploads,
+      {
+        method: 'POST',
+        url: `${apiHost}/api/v2/github/${repository}/upload-completed`,
+        headers,
+        body: { session_id: '(session_id returned by touch-recce-session)' }
+      }
+    ]
+  };
+}
+
+/**
+ * Write the dry-run plan to the job summary and action outputs
+ * @param plan - Planned requests
+ */
+export async function reportDryRunPlan(plan: DryRunPlan): Promise<void> {
+  const planJson = JSON.stringify(plan, null, 2);
+
+  core.info('[Dry Run] Skipping upload. Planned API calls:');
+  core.info(planJson);
+
+  await core.summary
+    .addHeading('Recce Cloud CI/CD Action Dry Run', 3)
+    .addRaw(
+      'Dry run enabled: artifacts were verified but nothing was sent to Recce Cloud. The following calls would be made.'
+    )
+    .addTable([
+      [
+        { data: 'Method', header: true },
+        { data: 'Endpoint', header: true },
+        { data: 'Payload', header: true }
+      ],
+      ...plan.requests.map(request => [
+        request.method,
+        request.url,
+        request.file !== undefined
+          ? `${request.file} (${formatBytes(request.size_bytes ?? 0)})`
+          : JSON.stringify(request.body)
+      ])
+    ])
+    .addCodeBlock(planJson, 'json')
+    .write();
+
+  core.setOutput('dry_run', 'true');
+  core.setOutput('planned_requests', JSON.stringify(plan));
+}
@@ -0,0 +1,117 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { mapWithConcurrency, projectNameFromTargetPath, resolveDbtProjects } from './projects';
+
+jest.mock('@actions/core');
+
+describe('dbt Projects', () => {
+  const workspace = path.join(__dirname, '__test_projects__');
+
+  beforeEach(async () => {
+    for (const project of ['finance', 'marketing']) {
+      await fs.mkdir(path.join(workspace, 'projects', project, 'target'), { recursive: true });
+    }
+    await fs.writeFile(path.join(workspace, 'projects', 'README.md'), '');
+  });
+
+  afterEach(async () => {
+    await fs.rm(workspace, { recursive: true, force: true });
+  });
+
+  describe('resolveDbtProjects', () => {
+    it('should keep a single target path without a project name', async () => {
+      await expect(resolveDbtProjects('target', workspace)).resolves.toEqual([
+        { targetPath: 'target' }
+      ]);
+    });
+
+    it('should expand glob patterns to named projects', async () => {
+      const projects = await resolveDbtProjects('projects/*/target', workspace);
+
+      expect(projects).toEqual([
+        {
+          name: 'projects/finance',
+          targetPath: path.join('projects', 'finance', 'target')
+        },
+        {
+          name: 'projects/marketing',
+          targetPath: path.join('projects', 'marketing', 'target')
+        }
+      ]);
+    });
+
+    it('should accept lists and drop duplicates', async () => {
+      const projects = await resolveDbtProjects(
+        'target\nprojects/finance/target, projects/finance/target/',
+        workspace
+      );
+
+      expect(projects.map(project => project.name)).toEqual(['.', 'projects/finance']);
+    });
+
+    it('should name targets that share a parent directory after their path', async () => {
+      const projects = await resolveDbtProjects(
+        'target_a, target_b, projects/finance/target',
+        workspace
+      );
+
+      expect(projects.map(project => project.name)).toEqual([
+        'target_a',
+        'target_b',
+        'projects/finance'
+      ]);
+    });
+
+    it('should reject projects that still share a name', async () => {
+      await expect(resolveDbtProjects('a, b, a/target', workspace)).rejects.toThrow(
+        "several dbt projects named 'a'"
+      );
+    });
+
+    it('should fail when a glob matches no directory', async () => {
+      await expect(resolveDbtProjects('missing/*/target', workspace)).rejects.toThrow(
+        "pattern 'missing/*/target' did not match any directory"
+      );
+    });
+
+    it('should skip unmatched globs when matches are not required', async () => {
+      await expect(resolveDbtProjects('missing/*/target', workspace, false)).resolves.toEqual([]);
+      await expect(
+        resolveDbtProjects('missing/*/target\nprojects/finance/target', workspace, false)
+      ).resolves.toEqual([{ targetPath: path.join('projects', 'finance', 'target') }]);
+    });
+  });
+
+  it('should name projects after the target parent directory', () => {
+    expect(projectNameFromTargetPath('target', '/repo')).toBe('.');
+    expect(projectNameFromTargetPath('projects/finance/target', '/repo')).toBe('projects/finance');
+  });
+
+  describe('mapWithConcurrency', () => {
+    it('should limit concurrency and settle every item', async () => {
+      let running = 0;
+      let maxRunning = 0;
+
+      const results = await mapWithConcurrency([1, 2, 3, 4, 5], 2, async item => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        running--;
+        if (item === 3) {
+          throw new Error('project 3 failed');
+        }
+        return item * 10;
+      });
+
+      expect(maxRunning).toBe(2);
+      expect(results.map(result => result.status)).toEqual([
+        'fulfilled',
+        'fulfilled',
+        'rejected',
+        'fulfilled',
+        'fulfilled'
+      ]);
+      expect(results[4]).toEqual({ status: 'fulfilled', value: 50 });
+    });
+  });
+});
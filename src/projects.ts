@@ -0,0 +1,145 @@
+import * as core from '@actions/core';
+import * as glob from '@actions/glob';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { DbtProject } from './types';
+
+/**
+ * Characters that make a dbt_target_path entry a glob pattern
+ */
+const GLOB_CHARACTERS = /[*?[]/;
+
+/**
+ * Derive a stable project identifier from a target directory: the path of the
+ * dbt project directory (the target's parent) relative to the workspace
+ * @param targetPath - Path to the DBT target directory
+ * @param workspace - Workspace root
+ * @returns Project identifier using forward slashes (e.g., 'projects/finance')
+ */
+export function projectNameFromTargetPath(targetPath: string, workspace: string): string {
+  const projectDir = path.dirname(path.resolve(workspace, targetPath));
+  const relative = path.relative(workspace, projectDir);
+  return relative ? relative.split(path.sep).join('/') : '.';
+}
+
+/**
+ * Resolve the dbt_target_path input into the dbt projects to upload
+ * @param value - Comma or newline separated target directories or glob patterns
+ * @param workspace - Workspace root used to resolve relative paths and project names
+ * @param requireMatch - Fail when a glob matches no directory; when false, such globs are skipped
+ *   (e.g., to close the sessions of a pull request without checking out its artifacts)
+ * @returns Projects in input order; projects carry a name only when there is more than one
+ * @throws Error if no target directory is configured or a required glob matches no directory
+ */
+export async function resolveDbtProjects(
+  value: string,
+  workspace: string,
+  requireMatch = true
+): Promise<DbtProject[]> {
+  const entries = value
+    .split(/[,\n]/)
+    .map(entry => entry.trim())
+    .filter(entry => entry.length > 0);
+
+  if (entries.length === 0) {
+    throw new Error("Input 'dbt_target_path' must name at least one target directory.");
+  }
+
+  const targetPaths: string[] = [];
+
+  for (const entry of entries) {
+    if (!GLOB_CHARACTERS.test(entry)) {
+      // Plain paths are kept even if missing so that verification reports them
+      targetPaths.push(entry);
+      continue;
+    }
+
+    const globber = await glob.create(path.resolve(workspace, entry), {
+      implicitDescendants: false,
+      matchDirectories: true
+    });
+    const matches: string[] = [];
+    for (const match of await globber.glob()) {
+      if ((await fs.stat(match)).isDirectory()) {
+        matches.push(path.relative(workspace, match) || '.');
+      }
+    }
+
+    if (matches.length === 0) {
+      if (requireMatch) {
+        throw new Error(`Input 'dbt_target_path' pattern '${entry}' did not match any directory.`);
+      }
+      core.warning(
+        `[Skip] Input 'dbt_target_path' pattern '${entry}' did not match any directory.`
+      );
+      continue;
+    }
+    targetPaths.push(...matches.sort());
+  }
+
+  const unique = [
+    ...new Set(
+      targetPaths.map(targetPath => path.normalize(targetPath).replace(/(.)[\\/]+$/, '$1'))
+    )
+  ];
+
+  if (unique.length <= 1) {
+    return unique.map(targetPath => ({ targetPath }));
+  }
+
+  // Targets that share a parent directory (e.g., target_a and target_b) would share a name and
+  // overwrite each other's session, so they are named after the target path instead
+  const names = unique.map(targetPath => projectNameFromTargetPath(targetPath, workspace));
+  const projects = unique.map((targetPath, index) => ({
+    name:
+      names.indexOf(names[index]) === names.lastIndexOf(names[index])
+        ? names[index]
+        : path.relative(workspace, path.resolve(workspace, targetPath)).split(path.sep).join('/'),
+    targetPath
+  }));
+
+  const seen = new Set<string>();
+  for (const project of projects) {
+    if (seen.has(project.name)) {
+      throw new Error(
+        `Input 'dbt_target_path' resolves to several dbt projects named '${project.name}'. Each project needs its own directory.`
+      );
+    }
+    seen.add(project.name);
+  }
+
+  return projects;
+}
+
+/**
+ * Run an async function over a list of items with at most `limit` running at once.
+ * Every item is processed even if others fail.
+ * @param items - Items to process
+ * @param limit - Maximum number of concurrent calls
+ * @param fn - Function to run for each item, called with the item and its index
+ * @returns Settled results in item order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array<PromiseSettledResult<R>>(items.length);
+  let next = 0;
+
+  async function worker(): Promise<void> {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { status: 'fulfilled', value: await fn(items[index], index) };
+      } catch (error) {
+        results[index] = { status: 'rejected', reason: error };
+      }
+    }
+  }
+
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workerCount }, () => worker()));
+
+  return results;
+}
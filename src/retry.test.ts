@@ -0,0 +1,105 @@
+import { HttpStatusError } from './http';
+import { computeRetryDelay, isRetryableError, parseRetryAfter, withRetry } from './retry';
+import type { RetryPolicy } from './types';
+
+jest.mock('@actions/core');
+
+describe('Retry Policy', () => {
+  const policy: RetryPolicy = { maxRetries: 3, initialDelayMs: 1000 };
+
+  function networkError(code: string): Error {
+    return Object.assign(new Error(`network ${code}`), { code });
+  }
+
+  describe('isRetryableError', () => {
+    it('should retry 429 and 5xx responses', () => {
+      expect(isRetryableError(new HttpStatusError('rate limited', 429))).toBe(true);
+      expect(isRetryableError(new HttpStatusError('unavailable', 503))).toBe(true);
+    });
+
+    it('should not retry other 4xx responses', () => {
+      expect(isRetryableError(new HttpStatusError('unauthorized', 401))).toBe(false);
+      expect(isRetryableError(new HttpStatusError('not found', 404))).toBe(false);
+    });
+
+    it('should retry network errors only', () => {
+      expect(isRetryableError(networkError('ECONNRESET'))).toBe(true);
+      expect(isRetryableError(networkError('ERR_INVALID_ARG_TYPE'))).toBe(false);
+      expect(isRetryableError(new Error('plain error'))).toBe(false);
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    it('should parse delay seconds and HTTP dates', () => {
+      const now = Date.parse('2024-01-01T00:00:00Z');
+
+      expect(parseRetryAfter('5')).toBe(5000);
+      expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:10 GMT', now)).toBe(10000);
+      expect(parseRetryAfter('not a date')).toBeUndefined();
+      expect(parseRetryAfter(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('computeRetryDelay', () => {
+    it('should back off exponentially with jitter', () => {
+      for (const attempt of [1, 2, 3]) {
+        const backoff = 1000 * 2 ** (attempt - 1);
+        const delay = computeRetryDelay(attempt, policy, new Error('failed'));
+
+        expect(delay).toBeGreaterThanOrEqual(backoff / 2);
+        expect(delay).toBeLessThanOrEqual(backoff);
+      }
+    });
+
+    it('should honour Retry-After', () => {
+      const error = new HttpStatusError('rate limited', 429, '7');
+
+      expect(computeRetryDelay(1, policy, error)).toBe(7000);
+    });
+  });
+
+  describe('withRetry', () => {
+    const noWait = jest.fn().mockResolvedValue(undefined);
+
+    it('should retry transient failures until the operation succeeds', async () => {
+      const operation = jest
+        .fn()
+        .mockRejectedValueOnce(new HttpStatusError('unavailable', 503))
+        .mockRejectedValueOnce(networkError('ETIMEDOUT'))
+        .mockResolvedValue('ok');
+
+      await expect(withRetry('test', policy, operation, noWait)).resolves.toBe('ok');
+      expect(operation).toHaveBeenCalledTimes(3);
+    });
+
+    it('should stop after maxRetries', async () => {
+      const operation = jest.fn().mockRejectedValue(new HttpStatusError('unavailable', 503));
+
+      await expect(withRetry('test', policy, operation, noWait)).rejects.toThrow('unavailable');
+      expect(operation).toHaveBeenCalledTimes(4);
+    });
+
+    it('should report each retry to the policy', async () => {
+      const labels: string[] = [];
+      const operation = jest
+        .fn()
+        .mockRejectedValueOnce(new HttpStatusError('unavailable', 503))
+        .mockResolvedValue('ok');
+
+      await withRetry(
+        'touch',
+        { ...policy, onRetry: label => labels.push(label) },
+        operation,
+        noWait
+      );
+      expect(labels).toEqual(['touch']);
+    });
+
+    it('should not retry non-retryable failures', async () => {
+      const operation = jest.fn().mockRejectedValue(new HttpStatusError('forbidden', 403));
+
+      await expect(withRetry('test', policy, operation, noWait)).rejects.toThrow('forbidden');
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import * as core from '@actions/core';
+import { HttpStatusError } from './http';
+import type { RetryPolicy } from './types';
+
+/**
+ * Upper bound for a single backoff delay
+ */
+const MAX_RETRY_DELAY_MS = 60 * 1000;
+
+/**
+ * Upper bound for a server-requested Retry-After delay
+ */
+const MAX_RETRY_AFTER_MS = 5 * 60 * 1000;
+
+/**
+ * Node.js error codes for transient network failures
+ */
+const RETRYABLE_NETWORK_CODES = [
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'UND_ERR_SOCKET'
+];
+
+/**
+ * Check whether an error is a transient network failure (connection reset, DNS lookup, ...)
+ * @param error - Error thrown by a request
+ * @returns True if the error carries a transient network error code
+ */
+export function isNetworkError(error: unknown): boolean {
+  const code = (error as { code?: unknown } | null)?.code;
+  return typeof code === 'string' && RETRYABLE_NETWORK_CODES.includes(code);
+}
+
+/**
+ * Check whether an error is worth retrying: HTTP 429, HTTP 5xx or a network error
+ * @param error - Error thrown by a request
+ * @returns True if the request should be retried
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof HttpStatusError) {
+    return error.statusCode === 429 || error.statusCode >= 500;
+  }
+  return isNetworkError(error);
+}
+
+/**
+ * Parse a Retry-After header value
+ * @param value - Header value, either delay seconds or an HTTP date
+ * @param now - Current time in milliseconds
+ * @returns Delay in milliseconds, or undefined if the value is missing or invalid
+ */
+export function parseRetryAfter(value: string | undefined, now = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  if (/^\d+$/.test(value.trim())) {
+    return Number(value.trim()) * 1000;
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Compute the delay before the next attempt: exponential backoff with jitter,
+ * unless the server asked for a specific delay through Retry-After
+ * @param attempt - Number of the attempt that failed, starting at 1
+ * @param policy - Retry policy
+ * @param error - Error thrown by the failed attempt
+ * @returns Delay in milliseconds
+ */
+export function computeRetryDelay(attempt: number, policy: RetryPolicy, error: unknown): number {
+  if (error instanceof HttpStatusError) {
+    const retryAfter = parseRetryAfter(error.retryAfter);
+    if (retryAfter !== undefined) {
+      return Math.min(retryAfter, MAX_RETRY_AFTER_MS);
+    }
+  }
+
+  const backoff = Math.min(policy.initialDelayMs * 2 ** (attempt - 1), MAX_RETRY_DELAY_MS);
+  // Equal jitter: keep half of the backoff and randomize the other half
+  return Math.round(backoff / 2 + Math.random() * (backoff / 2));
+}
+
+/**
+ * Default sleep implementation
+ * @param ms - Milliseconds to wait
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Run an operation, retrying transient failures according to the retry policy
+ * @param label - Operation name used in log messages
+ * @param policy - Retry policy
+ * @param operation - Operation to run; called again from scratch on each attempt
+ * @param wait - Sleep implementation (overridable for tests)
+ * @returns The operation result
+ * @throws The last error if the operation fails with a non-retryable error or runs out of retries
+ */
+export async function withRetry<T>(
+  label: string,
+  policy: RetryPolicy,
+  operation: () => Promise<T>,
+  wait: (ms: number) => Promise<void> = sleep
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt > policy.maxRetries || !isRetryableError(error)) {
+        throw error;
+      }
+
+      const delay = computeRetryDelay(attempt, policy, error);
+      core.warning(
+        `[Retry] ${label} failed: ${error instanceof Error ? error.message : String(error)}. Retrying in ${(delay / 1000).toFixed(1)}s (retry ${attempt}/${policy.maxRetries})...`
+      );
+      policy.onRetry?.(label);
+      await wait(delay);
+    }
+  }
+}
@@ -0,0 +1,110 @@
+import * as core from '@actions/core';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import {
+  parseRedactPaths,
+  parseRedactPatterns,
+  removeSanitizedManifest,
+  reportRedactions,
+  sanitizeManifest,
+  writeSanitizedManifest
+} from './sanitize';
+
+jest.mock('@actions/core');
+
+const mockedCore = core as jest.Mocked<typeof core>;
+
+describe('Manifest Sanitization', () => {
+  const testDir = path.join(__dirname, '__test_sanitize__');
+
+  const manifest = {
+    metadata: { adapter_type: 'postgres', env: { DBT_ENV_SECRET: 'hunter2' } },
+    nodes: {
+      'model.jaffle.customers': {
+        raw_code: "select * from {{ ref('stg_customers') }}",
+        compiled_code: "select * from stg where password = 'hunter2'",
+        config: { meta: { owner: 'finance' }, tags: ['pii'] }
+      }
+    }
+  };
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should parse paths and reject invalid patterns', () => {
+    expect(parseRedactPaths('compiled_code, metadata.env\ncompiled_code\n')).toEqual([
+      'compiled_code',
+      'metadata.env'
+    ]);
+    expect(parseRedactPatterns("password = '[^']*'\n\n").map(pattern => pattern.source)).toEqual([
+      "password = '[^']*'"
+    ]);
+    expect(() => parseRedactPatterns('(unclosed')).toThrow(
+      "Input 'redact_patterns' contains an invalid regular expression '(unclosed'"
+    );
+  });
+
+  it('should redact keys at any depth and dotted paths from the root', () => {
+    const { manifest: sanitized, redactions } = sanitizeManifest(
+      manifest,
+      ['compiled_code', 'metadata.env', 'nodes.*.config.tags'],
+      []
+    );
+
+    expect(sanitized).toEqual({
+      metadata: { adapter_type: 'postgres', env: {} },
+      nodes: {
+        'model.jaffle.customers': {
+          raw_code: "select * from {{ ref('stg_customers') }}",
+          compiled_code: '[REDACTED]',
+          config: { meta: { owner: 'finance' }, tags: [] }
+        }
+      }
+    });
+    expect(redactions.map(redaction => redaction.count)).toEqual([1, 1, 1]);
+  });
+
+  it('should redact pattern matches in string values', () => {
+    const { manifest: sanitized, redactions } = sanitizeManifest(
+      manifest,
+      [],
+      parseRedactPatterns('hunter2')
+    );
+
+    expect(JSON.stringify(sanitized)).not.toContain('hunter2');
+    expect(redactions).toEqual([{ kind: 'pattern', rule: 'hunter2', count: 2 }]);
+  });
+
+  it('should write a sanitized copy without touching the target directory', async () => {
+    await fs.mkdir(testDir, { recursive: true });
+    const original = JSON.stringify(manifest);
+    await fs.writeFile(path.join(testDir, 'manifest.json'), original);
+
+    const sanitized = await writeSanitizedManifest(testDir, ['compiled_code', 'env'], []);
+
+    expect(path.basename(sanitized.filePath)).toBe('manifest.json');
+    expect(await fs.readFile(sanitized.filePath, 'utf8')).not.toContain('hunter2');
+    expect(await fs.readFile(path.join(testDir, 'manifest.json'), 'utf8')).toBe(original);
+
+    await removeSanitizedManifest(sanitized);
+    await expect(fs.access(sanitized.filePath)).rejects.toThrow();
+  });
+
+  it('should list redactions in the job summary', async () => {
+    const mockSummary = {
+      addHeading: jest.fn().mockReturnThis(),
+      addRaw: jest.fn().mockReturnThis(),
+      addTable: jest.fn().mockReturnThis(),
+      write: jest.fn().mockResolvedValue(undefined)
+    };
+    mockedCore.summary = mockSummary as unknown as typeof core.summary;
+
+    await reportRedactions([{ kind: 'path', rule: 'compiled_code', count: 3 }], 'finance');
+
+    expect(mockSummary.addTable).toHaveBeenCalledWith([
+      expect.any(Array),
+      ['JSON path', '<code>compiled_code</code>', '3']
+    ]);
+  });
+});
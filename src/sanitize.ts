@@ -0,0 +1,206 @@
+import * as core from '@actions/core';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { Redaction, SanitizedManifest } from './types';
+
+/**
+ * Replacement for string values and pattern matches removed from the manifest
+ */
+export const REDACTION_PLACEHOLDER = '[REDACTED]';
+
+/**
+ * Parse the `redact_paths` input into JSON paths
+ * @param value - Comma or newline separated paths (e.g., 'compiled_code, metadata.env')
+ * @returns Unique paths
+ */
+export function parseRedactPaths(value: string): string[] {
+  return [
+    ...new Set(
+      value
+        .split(/[,\n]/)
+        .map(entry => entry.trim())
+        .filter(entry => entry.length > 0)
+    )
+  ];
+}
+
+/**
+ * Parse the `redact_patterns` input into regular expressions
+ * @param value - Newline separated regular expressions
+ * @returns Global regular expressions
+ * @throws Error if a pattern is not a valid regular expression
+ */
+export function parseRedactPatterns(value: string): RegExp[] {
+  return value
+    .split('\n')
+    .map(entry => entry.trim())
+    .filter(entry => entry.length > 0)
+    .map(entry => {
+      try {
+        return new RegExp(entry, 'g');
+      } catch (error) {
+        throw new Error(
+          `Input 'redact_patterns' contains an invalid regular expression '${entry}': ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    });
+}
+
+/**
+ * Check whether a JSON path rule matches the keys leading to a value.
+ * A rule without dots matches that key at any depth; a dotted rule matches from
+ * the root, with '*' matching any single key.
+ * @param rule - JSON path rule
+ * @param keys - Keys from the root to the value
+ * @returns True if the rule matches
+ */
+function matchesPath(rule: string, keys: string[]): boolean {
+  const segments = rule.split('.');
+
+  if (segments.length === 1) {
+    return keys[keys.length - 1] === rule;
+  }
+
+  return (
+    segments.length === keys.length &&
+    segments.every((segment, index) => segment === '*' || segment === keys[index])
+  );
+}
+
+/**
+ * Replace a redacted value with an empty value of the same shape, so that
+ * consumers parsing the manifest still find the type they expect
+ * @param value - Value to redact
+ * @returns Placeholder value
+ */
+function redactValue(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return REDACTION_PLACEHOLDER;
+  }
+  if (Array.isArray(value)) {
+    return [];
+  }
+  if (value !== null && typeof value === 'object') {
+    return {};
+  }
+  return null;
+}
+
+/**
+ * Redact JSON paths and regex matches from a parsed manifest
+ * @param manifest - Parsed manifest.json
+ * @param paths - JSON path rules whose values are redacted
+ * @param patterns - Regular expressions whose matches in string values are redacted
+ * @returns The sanitized manifest and the number of values redacted per rule
+ */
+export function sanitizeManifest(
+  manifest: unknown,
+  paths: string[],
+  patterns: RegExp[]
+): { manifest: unknown; redactions: Redaction[] } {
+  const pathCounts = new Map(paths.map(rule => [rule, 0]));
+  const patternCounts = new Map(patterns.map(pattern => [pattern, 0]));
+
+  const walk = (value: unknown, keys: string[]): unknown => {
+    if (keys.length > 0) {
+      const rule = paths.find(candidate => matchesPath(candidate, keys));
+      if (rule !== undefined && value !== undefined && value !== null) {
+        pathCounts.set(rule, (pathCounts.get(rule) ?? 0) + 1);
+        return redactValue(value);
+      }
+    }
+
+    if (typeof value === 'string') {
+      let sanitized = value;
+      for (const pattern of patterns) {
+        sanitized = sanitized.replace(pattern, () => {
+          patternCounts.set(pattern, (patternCounts.get(pattern) ?? 0) + 1);
+          return REDACTION_PLACEHOLDER;
+        });
+      }
+      return sanitized;
+    }
+
+    if (Array.isArray(value)) {
+      return value.map((item, index) => walk(item, [...keys, String(index)]));
+    }
+
+    if (value !== null && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, walk(item, [...keys, key])])
+      );
+    }
+
+    return value;
+  };
+
+  return {
+    manifest: walk(manifest, []),
+    redactions: [
+      ...[...pathCounts].map(([rule, count]): Redaction => ({ kind: 'path', rule, count })),
+      ...[...patternCounts].map(
+        ([pattern, count]): Redaction => ({ kind: 'pattern', rule: pattern.source, count })
+      )
+    ]
+  };
+}
+
+/**
+ * Write a sanitized copy of manifest.json to a temporary directory.
+ * The target directory is never modified.
+ * @param dbtTargetPath - Path to the DBT target directory
+ * @param paths - JSON path rules whose values are redacted
+ * @param patterns - Regular expressions whose matches in string values are redacted
+ * @returns Path to the sanitized manifest.json and the redactions
+ */
+export async function writeSanitizedManifest(
+  dbtTargetPath: string,
+  paths: string[],
+  patterns: RegExp[]
+): Promise<SanitizedManifest> {
+  const content = await fs.readFile(path.join(dbtTargetPath, 'manifest.json'), 'utf8');
+  const { manifest, redactions } = sanitizeManifest(JSON.parse(content), paths, patterns);
+
+  const tempDir = await fs.mkdtemp(path.join(process.env.RUNNER_TEMP || os.tmpdir(), 'recce-'));
+  const filePath = path.join(tempDir, 'manifest.json');
+  await fs.writeFile(filePath, JSON.stringify(manifest));
+
+  return { filePath, redactions };
+}
+
+/**
+ * Remove a sanitized manifest and its temporary directory
+ * @param sanitized - Sanitized manifest
+ */
+export async function removeSanitizedManifest(sanitized: SanitizedManifest): Promise<void> {
+  await fs.rm(path.dirname(sanitized.filePath), { recursive: true, force: true });
+}
+
+/**
+ * Report what was redacted from manifest.json in the log and the job summary
+ * @param redactions - Values redacted per rule
+ * @param project - Optional dbt project name
+ */
+export async function reportRedactions(redactions: Redaction[], project?: string): Promise<void> {
+  const total = redactions.reduce((sum, redaction) => sum + redaction.count, 0);
+  const projectLabel = project ? ` of project '${project}'` : '';
+  core.info(`[Sanitize] Redacted ${total} value(s) from manifest.json${projectLabel}.`);
+
+  await core.summary
+    .addHeading('Recce Cloud CI/CD Action Redaction', 3)
+    .addRaw(`The following values were redacted from the uploaded manifest.json${projectLabel}.`)
+    .addTable([
+      [
+        { data: 'Type', header: true },
+        { data: 'Rule', header: true },
+        { data: 'Redacted values', header: true }
+      ],
+      ...redactions.map(redaction => [
+        redaction.kind === 'path' ? 'JSON path' : 'Pattern',
+        `<code>${redaction.rule.replace(/&/g, '&amp;').replace(/</g, '&lt;')}</code>`,
+        String(redaction.count)
+      ])
+    ])
+    .write();
+}
@@ -0,0 +1,179 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import {
+  parseSelectInput,
+  pruneCatalog,
+  pruneManifest,
+  selectNodes,
+  writePrunedArtifacts
+} from './select';
+import type { DbtManifest, DbtManifestNode } from './types';
+
+jest.mock('@actions/core');
+
+describe('Node Selection', () => {
+  const testDir = path.join(__dirname, '__test_select__');
+
+  function model(
+    name: string,
+    parents: string[] = [],
+    extra: Partial<DbtManifestNode> = {}
+  ): DbtManifestNode {
+    return {
+      unique_id: `model.shop.${name}`,
+      resource_type: 'model',
+      name,
+      original_file_path: `models/${name}.sql`,
+      checksum: { name: 'sha256', checksum: name },
+      depends_on: { nodes: parents },
+      ...extra
+    };
+  }
+
+  // raw_orders (source) -> stg_orders -> orders -> revenue
+  //                                             -> customers
+  const manifest: DbtManifest = {
+    metadata: { adapter_type: 'postgres' },
+    nodes: {
+      'model.shop.stg_orders': model('stg_orders', ['source.shop.raw.orders']),
+      'model.shop.orders': model('orders', ['model.shop.stg_orders'], {
+        original_file_path: 'models/marts/orders.sql',
+        tags: ['finance']
+      }),
+      'model.shop.revenue': model('revenue', ['model.shop.orders'], {
+        original_file_path: 'models/marts/revenue.sql'
+      }),
+      'model.shop.customers': model('customers', ['model.shop.orders']),
+      'test.shop.not_null_orders_id': {
+        resource_type: 'test',
+        depends_on: { nodes: ['model.shop.orders'] }
+      },
+      'test.shop.relationships_revenue_customers': {
+        resource_type: 'test',
+        depends_on: { nodes: ['model.shop.revenue', 'model.shop.customers'] }
+      }
+    },
+    sources: {
+      'source.shop.raw.orders': { resource_type: 'source', name: 'orders' }
+    },
+    parent_map: {
+      'model.shop.orders': ['model.shop.stg_orders'],
+      'model.shop.revenue': ['model.shop.orders']
+    }
+  };
+
+  const select = (value: string, baseManifest?: DbtManifest): string[] =>
+    [...selectNodes(manifest, parseSelectInput(value), baseManifest)].sort();
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should parse graph operators and methods', () => {
+    expect(parseSelectInput('2+tag:finance+ orders,path:models/marts')).toEqual([
+      [{ raw: '2+tag:finance+', method: 'tag', value: 'finance', parents: 2, children: Infinity }],
+      [
+        { raw: 'orders', method: 'name', value: 'orders', parents: 0, children: 0 },
+        {
+          raw: 'path:models/marts',
+          method: 'path',
+          value: 'models/marts',
+          parents: 0,
+          children: 0
+        }
+      ]
+    ]);
+    expect(() => parseSelectInput('config.materialized:table')).toThrow('unsupported selector');
+    expect(() => parseSelectInput('state:old')).toThrow('Supported states');
+  });
+
+  it('should select by name with parents and children', () => {
+    expect(select('+orders')).toEqual([
+      'model.shop.orders',
+      'model.shop.stg_orders',
+      'source.shop.raw.orders'
+    ]);
+    expect(select('1+orders+1')).toEqual([
+      'model.shop.customers',
+      'model.shop.orders',
+      'model.shop.revenue',
+      'model.shop.stg_orders'
+    ]);
+  });
+
+  it('should select by tag and path, and intersect comma-separated selectors', () => {
+    expect(select('tag:finance')).toEqual(['model.shop.orders']);
+    expect(select('path:models/marts/')).toEqual(['model.shop.orders', 'model.shop.revenue']);
+    expect(select('path:models/marts,revenue')).toEqual(['model.shop.revenue']);
+  });
+
+  it('should select modified and new nodes against the base manifest', () => {
+    const baseManifest: DbtManifest = {
+      ...manifest,
+      nodes: {
+        ...manifest.nodes,
+        'model.shop.orders': model('orders', ['model.shop.stg_orders'], {
+          checksum: { name: 'sha256', checksum: 'old' }
+        })
+      }
+    };
+    delete baseManifest.nodes?.['model.shop.customers'];
+
+    expect(select('state:modified', baseManifest)).toEqual([
+      'model.shop.customers',
+      'model.shop.orders'
+    ]);
+    expect(select('state:new', baseManifest)).toEqual(['model.shop.customers']);
+    expect(() => select('state:modified')).toThrow('base_target_path');
+  });
+
+  it('should keep tests whose tested nodes are all kept and prune the maps', () => {
+    const { manifest: pruned, kept } = pruneManifest(
+      manifest,
+      new Set(['model.shop.orders', 'model.shop.revenue'])
+    );
+
+    expect(Object.keys(pruned.nodes ?? {})).toEqual([
+      'model.shop.orders',
+      'model.shop.revenue',
+      'test.shop.not_null_orders_id'
+    ]);
+    expect(pruned.sources).toEqual({});
+    expect(pruned.parent_map).toEqual({
+      'model.shop.orders': [],
+      'model.shop.revenue': ['model.shop.orders']
+    });
+    expect(
+      pruneCatalog(
+        {
+          metadata: {},
+          nodes: { 'model.shop.orders': {}, 'model.shop.customers': {} },
+          sources: { 'source.shop.raw.orders': {} }
+        },
+        kept
+      )
+    ).toEqual({ metadata: {}, nodes: { 'model.shop.orders': {} }, sources: {} });
+  });
+
+  it('should write the pruned artifacts to a temporary directory', async () => {
+    await fs.mkdir(testDir, { recursive: true });
+    await fs.writeFile(path.join(testDir, 'manifest.json'), JSON.stringify(manifest));
+    await fs.writeFile(
+      path.join(testDir, 'catalog.json'),
+      JSON.stringify({ metadata: {}, nodes: { 'model.shop.orders': {} } })
+    );
+
+    const pruned = await writePrunedArtifacts(testDir, parseSelectInput('orders+'));
+    expect(pruned).toMatchObject({ selected: 3, excluded: 2 });
+
+    const written = JSON.parse(
+      await fs.readFile(path.join(pruned?.dir ?? '', 'manifest.json'), 'utf8')
+    ) as DbtManifest;
+    expect(Object.keys(written.nodes ?? {})).toHaveLength(5);
+    await fs.rm(pruned?.dir ?? '', { recursive: true, force: true });
+
+    await expect(writePrunedArtifacts(testDir, parseSelectInput('missing'))).resolves.toBe(
+      undefined
+    );
+  });
+});
@@ -0,0 +1,375 @@
+import * as core from '@actions/core';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type {
+  DbtCatalog,
+  DbtManifest,
+  DbtManifestNode,
+  NodeSelector,
+  PrunedArtifacts
+} from './types';
+
+/**
+ * Values supported by the state: selector method
+ */
+const STATE_VALUES = ['modified', 'new'];
+
+/**
+ * Parse one selector, e.g. '2+tag:finance+' or 'state:modified+'
+ * @param raw - Selector text
+ * @returns The parsed selector
+ * @throws Error if the method or state value is not supported
+ */
+function parseSelector(raw: string): NodeSelector {
+  const match = /^(\d*\+)?(.+?)(\+\d*)?$/.exec(raw) as RegExpExecArray;
+  const depth = (operator?: string): number => {
+    if (!operator) {
+      return 0;
+    }
+    const digits = operator.replace('+', '');
+    return digits ? Number(digits) : Infinity;
+  };
+
+  const body = match[2];
+  const separator = body.indexOf(':');
+  const method = separator === -1 ? 'name' : body.slice(0, separator);
+  const value = separator === -1 ? body : body.slice(separator + 1);
+
+  if (!['name', 'tag', 'path', 'state'].includes(method) || value === '') {
+    throw new Error(
+      `Input 'select' contains unsupported selector '${raw}'. Supported selectors: model_name, tag:<tag>, path:<path>, state:modified, state:new, with optional + graph operators.`
+    );
+  }
+  if (method === 'state' && !STATE_VALUES.includes(value)) {
+    throw new Error(
+      `Input 'select' contains unsupported selector '${raw}'. Supported states: ${STATE_VALUES.join(', ')}.`
+    );
+  }
+
+  return {
+    raw,
+    method: method as NodeSelector['method'],
+    value,
+    parents: depth(match[1]),
+    children: depth(match[3])
+  };
+}
+
+/**
+ * Parse the `select` input. Like dbt, selectors separated by spaces or newlines are combined
+ * (union), and selectors joined by commas must all match (intersection).
+ * @param value - Selector input (e.g., 'state:modified+ tag:finance,path:models/marts')
+ * @returns Union of intersections of selectors
+ * @throws Error if a selector is not supported
+ */
+export function parseSelectInput(value: string): NodeSelector[][] {
+  return value
+    .split(/\s+/)
+    .filter(entry => entry.length > 0)
+    .map(entry =>
+      entry
+        .split(',')
+        .filter(part => part.length > 0)
+        .map(parseSelector)
+    );
+}
+
+/**
+ * Check whether a selector uses the state: method and therefore needs a base manifest
+ * @param select - Parsed selectors
+ * @returns True if any selector compares against the base manifest
+ */
+export function requiresState(select: NodeSelector[][]): boolean {
+  return select.some(group => group.some(selector => selector.method === 'state'));
+}
+
+/**
+ * Collect the nodes that can be selected: every manifest node except tests, and every source
+ * @param manifest - Parsed manifest.json
+ * @returns Nodes keyed by unique ID
+ */
+function getSelectableNodes(manifest: DbtManifest): Map<string, DbtManifestNode> {
+  return new Map([
+    ...Object.entries(manifest.nodes ?? {}).filter(([, node]) => node.resource_type !== 'test'),
+    ...Object.entries(manifest.sources ?? {})
+  ]);
+}
+
+/**
+ * Check whether a node matches a selector method, ignoring graph operators
+ * @param uniqueId - Node unique ID
+ * @param node - Manifest node
+ * @param selector - Selector
+ * @param baseNodes - Selectable nodes of the base manifest, for state: selectors
+ * @returns True if the node matches
+ */
+function matchesMethod(
+  uniqueId: string,
+  node: DbtManifestNode,
+  selector: NodeSelector,
+  baseNodes?: Map<string, DbtManifestNode>
+): boolean {
+  switch (selector.method) {
+    case 'name':
+      // Like dbt, plain names select models, seeds and snapshots; sources are only matched by unique ID
+      return (
+        (node.resource_type !== 'source' && node.name === selector.value) ||
+        uniqueId === selector.value
+      );
+    case 'tag':
+      return Array.isArray(node.tags) && node.tags.includes(selector.value);
+    case 'path': {
+      const filePath = typeof node.original_file_path === 'string' ? node.original_file_path : '';
+      const prefix = selector.value.replace(/\/+$/, '');
+      return filePath === prefix || filePath.startsWith(`${prefix}/`);
+    }
+    case 'state': {
+      const baseNode = baseNodes?.get(uniqueId);
+      if (!baseNode) {
+        return true;
+      }
+      return (
+        selector.value === 'modified' && baseNode.checksum?.checksum !== node.checksum?.checksum
+      );
+    }
+  }
+}
+
+/**
+ * Walk the lineage graph from a set of nodes
+ * @param start - Unique IDs to start from
+ * @param edges - Neighbours of each node
+ * @param depth - Maximum number of steps (Infinity for no limit)
+ * @returns Nodes reached, not including the start nodes
+ */
+function walk(start: Set<string>, edges: Map<string, string[]>, depth: number): Set<string> {
+  const reached = new Set<string>();
+  let frontier = [...start];
+
+  for (let step = 0; step < depth && frontier.length > 0; step++) {
+    const next: string[] = [];
+    for (const id of frontier) {
+      for (const neighbour of edges.get(id) ?? []) {
+        if (!reached.has(neighbour) && !start.has(neighbour)) {
+          reached.add(neighbour);
+          next.push(neighbour);
+        }
+      }
+    }
+    frontier = next;
+  }
+
+  return reached;
+}
+
+/**
+ * Evaluate selectors against the manifest
+ * @param manifest - Parsed manifest.json
+ * @param select - Parsed selectors
+ * @param baseManifest - Manifest of the base branch, required for state: selectors
+ * @returns Unique IDs of the selected nodes (tests are not selected directly)
+ * @throws Error if a state: selector is used without a base manifest
+ */
+export function selectNodes(
+  manifest: DbtManifest,
+  select: NodeSelector[][],
+  baseManifest?: DbtManifest
+): Set<string> {
+  if (requiresState(select) && !baseManifest) {
+    throw new Error("state: selectors need the base manifest. Set 'base_target_path'.");
+  }
+
+  const nodes = getSelectableNodes(manifest);
+  const baseNodes = baseManifest ? getSelectableNodes(baseManifest) : undefined;
+
+  const parents = new Map<string, string[]>();
+  const children = new Map<string, string[]>();
+  for (const [uniqueId, node] of nodes) {
+    const nodeParents = (node.depends_on?.nodes ?? []).filter(parent => nodes.has(parent));
+    parents.set(uniqueId, nodeParents);
+    for (const parent of nodeParents) {
+      const siblings = children.get(parent);
+      if (siblings) {
+        siblings.push(uniqueId);
+      } else {
+        children.set(parent, [uniqueId]);
+      }
+    }
+  }
+
+  const evaluate = (selector: NodeSelector): Set<string> => {
+    const matched = new Set(
+      [...nodes.entries()]
+        .filter(([uniqueId, node]) => matchesMethod(uniqueId, node, selector, baseNodes))
+        .map(([uniqueId]) => uniqueId)
+    );
+    return new Set([
+      ...matched,
+      ...walk(matched, parents, selector.parents),
+      ...walk(matched, children, selector.children)
+    ]);
+  };
+
+  const selected = new Set<string>();
+  for (const group of select) {
+    const sets = group.map(evaluate);
+    for (const uniqueId of sets[0] ?? []) {
+      if (sets.every(set => set.has(uniqueId))) {
+        selected.add(uniqueId);
+      }
+    }
+  }
+
+  return selected;
+}
+
+/**
+ * Keep only the selected entries of a record
+ * @param record - Record keyed by unique ID
+ * @param keep - Unique IDs to keep
+ * @returns The pruned record, or undefined if the record is undefined
+ */
+function pick<T>(
+  record: Record<string, T> | undefined,
+  keep: Set<string>
+): Record<string, T> | undefined {
+  return record && Object.fromEntries(Object.entries(record).filter(([id]) => keep.has(id)));
+}
+
+/**
+ * Prune a manifest to the selected nodes. Tests are kept when all the nodes they test are kept,
+ * so the pruned lineage has no dangling references.
+ * @param manifest - Parsed manifest.json
+ * @param selected - Selected unique IDs
+ * @returns The pruned manifest and the unique IDs it contains
+ */
+export function pruneManifest(
+  manifest: DbtManifest,
+  selected: Set<string>
+): { manifest: DbtManifest; kept: Set<string> } {
+  const kept = new Set(selected);
+  for (const [uniqueId, node] of Object.entries(manifest.nodes ?? {})) {
+    const testedNodes = node.depends_on?.nodes ?? [];
+    if (
+      node.resource_type === 'test' &&
+      testedNodes.length > 0 &&
+      testedNodes.every(id => selected.has(id))
+    ) {
+      kept.add(uniqueId);
+    }
+  }
+
+  const pruneMap = (map?: Record<string, string[]>): Record<string, string[]> | undefined =>
+    map &&
+    Object.fromEntries(
+      Object.entries(map)
+        .filter(([id]) => kept.has(id))
+        .map(([id, ids]) => [id, ids.filter(other => kept.has(other))])
+    );
+
+  return {
+    manifest: {
+      ...manifest,
+      nodes: pick(manifest.nodes, kept),
+      sources: pick(manifest.sources, kept),
+      parent_map: pruneMap(manifest.parent_map),
+      child_map: pruneMap(manifest.child_map)
+    },
+    kept
+  };
+}
+
+/**
+ * Prune a catalog to the nodes kept in the manifest
+ * @param catalog - Parsed catalog.json
+ * @param kept - Unique IDs kept in the pruned manifest
+ * @returns The pruned catalog
+ */
+export function pruneCatalog(catalog: DbtCatalog, kept: Set<string>): DbtCatalog {
+  return { ...catalog, nodes: pick(catalog.nodes, kept), sources: pick(catalog.sources, kept) };
+}
+
+/**
+ * Write manifest.json and catalog.json pruned to the selected nodes to a temporary directory
+ * @param dbtTargetPath - Path to the DBT target directory
+ * @param select - Parsed selectors
+ * @param baseTargetPath - Target directory with the base manifest, for state: selectors
+ * @returns The pruned artifacts, or undefined if the selectors matched no nodes
+ */
+export async function writePrunedArtifacts(
+  dbtTargetPath: string,
+  select: NodeSelector[][],
+  baseTargetPath?: string
+): Promise<PrunedArtifacts | undefined> {
+  const readJson = async <T>(dir: string, name: string): Promise<T> =>
+    JSON.parse(await fs.readFile(path.join(dir, name), 'utf8')) as T;
+
+  const manifest = await readJson<DbtManifest>(dbtTargetPath, 'manifest.json');
+  const baseManifest =
+    requiresState(select) && baseTargetPath
+      ? await readJson<DbtManifest>(baseTargetPath, 'manifest.json')
+      : undefined;
+
+  const selected = selectNodes(manifest, select, baseManifest);
+  const total = getSelectableNodes(manifest).size;
+  if (selected.size === 0) {
+    core.warning(
+      `[Skip] Input 'select' matched none of the ${total} nodes in ${dbtTargetPath}. The full manifest will be uploaded.`
+    );
+    return undefined;
+  }
+
+  const pruned = pruneManifest(manifest, selected);
+  const catalog = await readJson<DbtCatalog>(dbtTargetPath, 'catalog.json');
+
+  const dir = await fs.mkdtemp(path.join(process.env.RUNNER_TEMP || os.tmpdir(), 'recce-'));
+  await fs.writeFile(path.join(dir, 'manifest.json'), JSON.stringify(pruned.manifest));
+  await fs.writeFile(
+    path.join(dir, 'catalog.json'),
+    JSON.stringify(pruneCatalog(catalog, pruned.kept))
+  );
+
+  return { dir, selected: selected.size, excluded: total - selected.size };
+}
+
+/**
+ * Remove pruned artifacts and their temporary directory
+ * @param pruned - Pruned artifacts
+ */
+export async function removePrunedArtifacts(pruned: PrunedArtifacts): Promise<void> {
+  await fs.rm(pruned.dir, { recursive: true, force: true });
+}
+
+/**
+ * Report how many nodes were selected and excluded in the log and the job summary
+ * @param pruned - Pruned artifacts
+ * @param select - Parsed selectors
+ * @param project - Optional dbt project name
+ */
+export async function reportSelection(
+  pruned: PrunedArtifacts,
+  select: NodeSelector[][],
+  project?: string
+): Promise<void> {
+  const projectLabel = project ? ` of project '${project}'` : '';
+  const selectors = select.map(group => group.map(selector => selector.raw).join(',')).join(' ');
+  core.info(
+    `[Select] ${pruned.selected} node(s) selected and ${pruned.excluded} excluded${projectLabel} by '${selectors}'.`
+  );
+
+  await core.summary
+    .addHeading('Recce Cloud CI/CD Action Selection', 3)
+    .addRaw(
+      `The uploaded manifest.json and catalog.json${projectLabel} were pruned to the selected nodes.`
+    )
+    .addTable([
+      [
+        { data: 'Selector', header: true },
+        { data: 'Selected nodes', header: true },
+        { data: 'Excluded nodes', header: true }
+      ],
+      [`<code>${selectors}</code>`, String(pruned.selected), String(pruned.excluded)]
+    ])
+    .write();
+}
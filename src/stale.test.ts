@@ -0,0 +1,39 @@
+import * as github from '@actions/github';
+import { isStaleCommit } from './stale';
+
+type Octokit = ReturnType<typeof github.getOctokit>;
+
+describe('Stale Commit Guard', () => {
+  function createOctokit(status: string): { octokit: Octokit; compare: jest.Mock } {
+    const compare = jest.fn().mockResolvedValue({ data: { status } });
+    const octokit = { rest: { repos: { compareCommitsWithBasehead: compare } } };
+    return { octokit: octokit as unknown as Octokit, compare };
+  }
+
+  it('should treat an ancestor of the uploaded commit as stale', async () => {
+    const { octokit, compare } = createOctokit('behind');
+
+    await expect(isStaleCommit(octokit, 'owner', 'repo', 'new-sha', 'old-sha')).resolves.toBe(true);
+    expect(compare).toHaveBeenCalledWith({
+      owner: 'owner',
+      repo: 'repo',
+      basehead: 'new-sha...old-sha',
+      per_page: 1
+    });
+  });
+
+  it.each(['ahead', 'diverged'])('should allow %s commits', async status => {
+    const { octokit } = createOctokit(status);
+
+    await expect(isStaleCommit(octokit, 'owner', 'repo', 'uploaded-sha', 'head-sha')).resolves.toBe(
+      false
+    );
+  });
+
+  it('should allow re-uploading the same commit without calling GitHub', async () => {
+    const { octokit, compare } = createOctokit('identical');
+
+    await expect(isStaleCommit(octokit, 'owner', 'repo', 'sha', 'sha')).resolves.toBe(false);
+    expect(compare).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,35 @@
+import * as github from '@actions/github';
+
+type Octokit = ReturnType<typeof github.getOctokit>;
+
+/**
+ * Check whether the commit being uploaded is older than the commit whose artifacts
+ * Recce Cloud already stores for the session, e.g. when an old workflow run is re-run
+ * @param octokit - Authenticated GitHub client
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param uploadedSha - Commit SHA reported by Recce Cloud for the session
+ * @param headSha - Commit SHA of this run
+ * @returns True if headSha is an ancestor of uploadedSha
+ */
+export async function isStaleCommit(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  uploadedSha: string,
+  headSha: string
+): Promise<boolean> {
+  if (uploadedSha === headSha) {
+    return false;
+  }
+
+  const { data } = await octokit.rest.repos.compareCommitsWithBasehead({
+    owner,
+    repo,
+    basehead: `${uploadedSha}...${headSha}`,
+    per_page: 1
+  });
+
+  // 'behind' means headSha is reachable from uploadedSha; diverged histories (force pushes) are not stale
+  return data.status === 'behind';
+}
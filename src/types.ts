@@ -2,23 +2,120 @@
  * Type definitions for Recce Cloud CI/CD Action
  */
 
+import type { HttpClient } from '@actions/http-client';
+
 /**
  * Action inputs from action.yml
  */
 export interface ActionInputs {
+  mode: ActionMode;
+  handoff_artifact_name: string;
   dbt_target_path: string;
+  generate_artifacts: boolean;
+  generate_command: string;
   api_host: string;
   web_host: string;
   github_token: string;
+  auth_mode: AuthMode;
+  oidc_audience: string;
+  api_key: string;
   base_branch: string;
+  base_branch_mismatch: BaseBranchMismatchAction;
+  validation_mode: ValidationMode;
+  compress_artifacts: boolean;
+  skip_unchanged: boolean;
+  dry_run: boolean;
+  max_retries: number;
+  retry_delay: number;
+  artifacts: string[];
+  select: NodeSelector[][];
+  max_concurrency: number;
+  base_target_path: string;
+  redact_paths: string[];
+  redact_patterns: RegExp[];
+  wait_for_ready: boolean;
+  wait_timeout: number;
+  comment_on_pr: boolean;
+  promote_on_merge: boolean;
+  report_path: string;
+  config_file: string;
+  pr_number?: number;
+}
+
+/**
+ * Type of a config file value: a scalar type, a list of strings or one of a fixed set of strings
+ */
+export type ConfigKeyType = 'string' | 'boolean' | 'integer' | 'list' | string[];
+
+/**
+ * Where the value of an input came from, from highest to lowest precedence
+ * - input: the action input (or CLI flag)
+ * - env: a RECCE_<INPUT> environment variable
+ * - config: the config file
+ * - default: the built-in default
+ */
+export type InputSource = 'input' | 'env' | 'config' | 'default';
+
+/**
+ * How the action runs
+ * - upload: verify and upload artifacts in a single step
+ * - collect: verify artifacts and package them as a workflow artifact (untrusted fork PR workflows)
+ * - publish: upload a package created by collect (trusted workflow_run workflows)
+ */
+export type ActionMode = 'upload' | 'collect' | 'publish';
+
+/**
+ * How the action authenticates to Recce Cloud
+ * - github_token: forward the workflow's GitHub token
+ * - oidc: a GitHub Actions OIDC ID token
+ * - api_key: a Recce Cloud API key
+ */
+export type AuthMode = 'github_token' | 'oidc' | 'api_key';
+
+/**
+ * Credentials used for Recce Cloud API requests
+ */
+export interface ResolvedAuth {
+  mode: AuthMode;
+  token: string;
 }
 
+/**
+ * What to do when a base session update is triggered from a non-base branch
+ */
+export type BaseBranchMismatchAction = 'skip' | 'fail';
+
 /**
  * DBT Manifest metadata structure
  */
 export interface DbtManifestMetadata {
   adapter_type: string;
   dbt_version: string;
+  dbt_schema_version?: string;
+  generated_at?: string;
+  invocation_id?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * DBT Manifest node structure (models, seeds, snapshots, tests, ...)
+ */
+export interface DbtManifestNode {
+  unique_id?: string;
+  resource_type?: string;
+  name?: string;
+  config?: {
+    materialized?: string;
+    [key: string]: unknown;
+  };
+  checksum?: {
+    name: string;
+    checksum: string;
+  };
+  depends_on?: {
+    nodes?: string[];
+    [key: string]: unknown;
+  };
   [key: string]: unknown;
 }
 
@@ -27,10 +124,134 @@ export interface DbtManifestMetadata {
  */
 export interface DbtManifest {
   metadata: DbtManifestMetadata;
-  nodes?: Record<string, unknown>;
+  nodes?: Record<string, DbtManifestNode>;
+  sources?: Record<string, DbtManifestNode>;
+  parent_map?: Record<string, string[]>;
+  child_map?: Record<string, string[]>;
+  [key: string]: unknown;
+}
+
+/**
+ * DBT Catalog metadata structure
+ */
+export interface DbtCatalogMetadata {
+  dbt_schema_version?: string;
+  dbt_version?: string;
+  generated_at?: string;
+  invocation_id?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * DBT Catalog column structure
+ */
+export interface DbtCatalogColumn {
+  name: string;
+  type: string;
   [key: string]: unknown;
 }
 
+/**
+ * DBT Catalog node structure
+ */
+export interface DbtCatalogNode {
+  columns?: Record<string, DbtCatalogColumn>;
+  [key: string]: unknown;
+}
+
+/**
+ * DBT Catalog JSON structure
+ */
+export interface DbtCatalog {
+  metadata: DbtCatalogMetadata;
+  nodes?: Record<string, DbtCatalogNode>;
+  sources?: Record<string, DbtCatalogNode>;
+  [key: string]: unknown;
+}
+
+/**
+ * Column changes of a model between the base and current catalogs
+ */
+export interface ColumnChange {
+  node: string;
+  added: string[];
+  removed: string[];
+  type_changed: Array<{ column: string; base_type: string; current_type: string }>;
+}
+
+/**
+ * Difference between the base and current manifests
+ */
+export interface LineageDiff {
+  added: string[];
+  removed: string[];
+  modified: string[];
+  column_changes: ColumnChange[];
+  impacted: string[];
+}
+
+/**
+ * How artifact validation problems are handled
+ * - strict: errors fail the action
+ * - warn: all problems are reported as warnings
+ * - off: validation is skipped
+ */
+export type ValidationMode = 'strict' | 'warn' | 'off';
+
+/**
+ * A problem found while validating DBT artifacts
+ */
+export interface ValidationIssue {
+  file: string;
+  severity: 'error' | 'warning';
+  title: string;
+  message: string;
+}
+
+/**
+ * Values redacted from manifest.json by one sanitization rule
+ */
+export interface Redaction {
+  kind: 'path' | 'pattern';
+  rule: string;
+  count: number;
+}
+
+/**
+ * A sanitized copy of manifest.json written to a temporary file
+ */
+export interface SanitizedManifest {
+  filePath: string;
+  redactions: Redaction[];
+}
+
+/**
+ * A node selector parsed from the `select` input, e.g. '+tag:finance+'
+ * - method: 'name', 'tag', 'path' or 'state'
+ * - parents / children: graph depth to include around the matched nodes (Infinity for '+')
+ */
+export interface NodeSelector {
+  raw: string;
+  method: 'name' | 'tag' | 'path' | 'state';
+  value: string;
+  parents: number;
+  children: number;
+}
+
+/**
+ * Manifest and catalog pruned to the selected nodes, written to a temporary directory
+ */
+export interface PrunedArtifacts {
+  dir: string;
+  selected: number;
+  excluded: number;
+}
+
+/**
+ * Content encoding used when uploading artifacts to presigned URLs
+ */
+export type UploadCompression = 'gzip' | 'none';
+
 /**
  * Request body for creating/touching a Recce session
  */
@@ -38,6 +259,19 @@ export interface TouchSessionRequest {
   branch: string;
   pr_number?: number;
   adapter_type: string;
+  dbt_version?: string;
+  head_sha: string;
+  base_sha?: string;
+  base_ref?: string;
+  run_id: number;
+  run_attempt: number;
+  workflow: string;
+  actor: string;
+  supported_compression?: UploadCompression[];
+  artifacts?: string[];
+  /** SHA-256 hex digest of each artifact about to be uploaded, keyed by file name */
+  artifact_hashes?: Record<string, string>;
+  project?: string;
 }
 
 /**
@@ -47,6 +281,50 @@ export interface TouchSessionResponse {
   session_id: string;
   manifest_upload_url: string;
   catalog_upload_url: string;
+  upload_compression?: UploadCompression;
+  artifact_upload_urls?: Record<string, string>;
+  base_manifest_url?: string;
+  base_catalog_url?: string;
+  /** Commit SHA of the artifacts currently stored in the session, if any */
+  head_sha?: string;
+  /** SHA-256 hex digest of each artifact currently stored in the session, keyed by file name */
+  artifact_hashes?: Record<string, string>;
+}
+
+/**
+ * Response body of the session status endpoint
+ */
+export interface SessionStatusResponse {
+  session_id?: string;
+  status: string;
+  message?: string;
+}
+
+/**
+ * Outcome of waiting for Recce Cloud to process a session
+ * - ready: the session finished processing
+ * - failed: Recce Cloud reported a processing error
+ * - timeout: the session was still processing when wait_timeout elapsed
+ */
+export type SessionWaitState = 'ready' | 'failed' | 'timeout';
+
+/**
+ * Result of waiting for Recce Cloud to process a session
+ */
+export interface SessionWaitResult {
+  state: SessionWaitState;
+  status: string;
+  message?: string;
+  durationSeconds: number;
+}
+
+/**
+ * An artifact file paired with its presigned upload URL
+ */
+export interface ArtifactUploadTarget {
+  name: string;
+  filePath: string;
+  uploadUrl: string;
 }
 
 /**
@@ -56,29 +334,225 @@ export interface UploadCompletedRequest {
   session_id: string;
 }
 
+/**
+ * Request body for closing the Recce session of a closed pull request
+ */
+export interface CloseSessionRequest {
+  branch: string;
+  pr_number: number;
+  merged: boolean;
+  /** Copy the session's artifacts into the base session of base_ref */
+  promote_to_base: boolean;
+  head_sha: string;
+  merge_commit_sha?: string;
+  base_ref?: string;
+  /** Project whose session to close; omitted to close every session of the pull request */
+  project?: string;
+}
+
+/**
+ * Response from Recce Cloud close-recce-session API
+ */
+export interface CloseSessionResponse {
+  /** What happened to the session, e.g. 'archived' or 'promoted' */
+  status: string;
+  session_id?: string;
+  /** Base session that received the artifacts when the session was promoted */
+  base_session_id?: string;
+}
+
 /**
  * GitHub context type for pull request events
  */
 export interface PullRequestContext {
+  action?: string;
   pull_request: {
     number: number;
+    merged?: boolean;
+    merge_commit_sha?: string | null;
     head: {
       ref: string;
+      sha?: string;
+    };
+    base?: {
+      ref: string;
+      sha?: string;
+    };
+  };
+}
+
+/**
+ * GitHub context type for merge queue events
+ */
+export interface MergeGroupContext {
+  merge_group: {
+    head_ref: string;
+    head_sha?: string;
+    base_ref?: string;
+    base_sha?: string;
+  };
+}
+
+/**
+ * GitHub context type for workflow_run events
+ */
+export interface WorkflowRunContext {
+  workflow_run: {
+    id: number;
+    event: string;
+    head_sha: string;
+    head_branch: string | null;
+    conclusion: string | null;
+    head_repository: {
+      full_name: string;
     };
   };
 }
 
+/**
+ * A dbt project in a handoff package, stored under its own directory
+ */
+export interface HandoffProject {
+  name?: string;
+  path: string;
+  artifacts: string[];
+}
+
+/**
+ * Metadata of the package passed from a collect run to a publish run
+ */
+export interface HandoffPackage {
+  version: number;
+  pr_number: number;
+  head_sha: string;
+  head_ref: string;
+  base_ref?: string;
+  base_sha?: string;
+  projects: HandoffProject[];
+}
+
+/**
+ * Pull request details used to verify a handoff package
+ */
+export interface HandoffPullRequest {
+  number: number;
+  state: string;
+  headRef: string;
+  headRepository?: string;
+}
+
+/**
+ * Pull request named by the pr_number input of a workflow_dispatch run, as reported by the GitHub API
+ */
+export interface DispatchedPullRequest {
+  number: number;
+  headRef: string;
+  headSha: string;
+  headRepository?: string;
+  baseRef: string;
+  baseSha: string;
+}
+
 /**
  * Type of session being created
  */
 export type SessionType = 'pr' | 'base';
 
 /**
- * HTTP response type with status code and result
+ * Session target resolved from the GitHub event that triggered the workflow
+ */
+export interface ResolvedEvent {
+  eventName: string;
+  sessionType: SessionType;
+  branch: string;
+  prNumber?: number;
+  headSha: string;
+  baseRef?: string;
+  baseSha?: string;
+  /** Set when the pull request was closed; the session is closed instead of uploaded to */
+  closed?: ClosedPullRequest;
+}
+
+/**
+ * How a pull request was closed
+ */
+export interface ClosedPullRequest {
+  merged: boolean;
+  mergeCommitSha?: string;
+}
+
+/**
+ * Retry policy shared by all Recce Cloud and presigned URL requests
  */
-export interface HttpResponse<T> {
-  statusCode: number;
-  result: T | null;
+export interface RetryPolicy {
+  maxRetries: number;
+  initialDelayMs: number;
+  /** Called before each retry with the label of the operation being retried */
+  onRetry?: (label: string) => void;
+}
+
+/**
+ * Options for creating a Recce Cloud API client
+ */
+export interface RecceCloudClientOptions {
+  apiHost: string;
+  repository: string;
+  token: string;
+  retryPolicy: RetryPolicy;
+  /** HTTP transport; it must not retry on its own (defaults to an HttpClient without retries) */
+  transport?: HttpClient;
+}
+
+/**
+ * Machine-readable reason the action failed, set as the failure_reason output
+ */
+export type FailureReason =
+  | 'auth_failed'
+  | 'permission_denied'
+  | 'app_not_installed'
+  | 'payload_too_large'
+  | 'rate_limited'
+  | 'server_error'
+  | 'invalid_response'
+  | 'presigned_url_expired'
+  | 'upload_rejected'
+  | 'network_error'
+  | 'invalid_manifest'
+  | 'processing_failed'
+  | 'processing_timeout'
+  | 'unknown';
+
+/**
+ * A classified failure with the steps that usually fix it
+ */
+export interface FailureDiagnosis {
+  reason: FailureReason;
+  title: string;
+  /** Extra details safe to show, e.g. the storage error code; never contains tokens or presigned URLs */
+  detail?: string;
+  remediation: string[];
+  docsUrl: string;
+}
+
+/**
+ * CI providers the recce-cloud-upload CLI reads the repository, branch and pull request from
+ */
+export type CiProvider = 'github' | 'gitlab' | 'circleci' | 'buildkite' | 'local';
+
+/**
+ * Repository, branch and pull request of a CLI run, detected from the CI provider or passed as flags
+ */
+export interface CiEnvironment {
+  provider: CiProvider;
+  repository?: string;
+  branch?: string;
+  prNumber?: number;
+  headSha?: string;
+  baseRef?: string;
+  runId?: string;
+  serverUrl?: string;
+  workflow?: string;
+  actor?: string;
 }
 
 /**
@@ -89,4 +563,125 @@ export interface ErrorContext {
   branch: string;
   eventType: string;
   apiEndpoint?: string;
+  project?: string;
+  authMode?: AuthMode;
+}
+
+/**
+ * A session listed in the pull request session comment
+ */
+export interface SessionCommentEntry {
+  project?: string;
+  sessionUrl: string;
+  adapterType: string;
+  dbtVersion: string;
+}
+
+/**
+ * Details rendered into the pull request session comment
+ */
+export interface SessionCommentDetails {
+  sessions: SessionCommentEntry[];
+  commitSha: string;
+  workflow: string;
+  runNumber: number;
+  runUrl: string;
+  updatedAt: string;
+}
+
+/**
+ * A dbt project to upload, identified by its target directory.
+ * The name is only set when the action uploads more than one project.
+ */
+export interface DbtProject {
+  name?: string;
+  targetPath: string;
+}
+
+/**
+ * Outcome of uploading the artifacts of one dbt project
+ */
+export interface UploadResult {
+  project: DbtProject;
+  sessionType: SessionType;
+  sessionId?: string;
+  adapterType: string;
+  dbtVersion: string;
+  dryRunPlan?: DryRunPlan;
+  lineageDiff?: LineageDiff;
+  sessionWait?: SessionWaitResult;
+  /** Why the upload was skipped; undefined if the artifacts were uploaded */
+  skipReason?: string;
+}
+
+/**
+ * Timing of one phase of a project upload (verify, touch, each file upload, complete, wait)
+ */
+export interface PhaseMetric {
+  name: string;
+  duration_ms: number;
+  retries: number;
+  failed: boolean;
+  /** Size of the file on disk, for file uploads */
+  size_bytes?: number;
+  /** Bytes sent to the storage after compression, for file uploads */
+  uploaded_bytes?: number;
+}
+
+/**
+ * Outcome of a project upload as recorded in the run report
+ */
+export type ProjectOutcome = 'uploaded' | 'skipped' | 'dry_run' | 'failed';
+
+/**
+ * Metrics of one dbt project in the run report
+ */
+export interface ProjectMetrics {
+  project?: string;
+  target_path: string;
+  outcome: ProjectOutcome;
+  session_id?: string;
+  failure_reason?: FailureReason;
+  duration_ms: number;
+  uploaded_bytes: number;
+  retries: number;
+  phases: PhaseMetric[];
+}
+
+/**
+ * Machine-readable report of an upload run, written to report_path
+ */
+export interface RunReport {
+  version: 1;
+  repository: string;
+  workflow: string;
+  run_id: number;
+  run_attempt: number;
+  event: string;
+  session_type: SessionType;
+  branch: string;
+  pr_number?: number;
+  head_sha: string;
+  started_at: string;
+  duration_ms: number;
+  projects: ProjectMetrics[];
+}
+
+/**
+ * An API call the action would make, as reported in dry-run mode
+ */
+export interface PlannedRequest {
+  method: string;
+  url: string;
+  headers?: Record<string, string>;
+  body?: unknown;
+  file?: string;
+  size_bytes?: number;
+}
+
+/**
+ * API calls the action would make for an upload, as reported in dry-run mode
+ */
+export interface DryRunPlan {
+  requests: PlannedRequest[];
 }
@@ -0,0 +1,95 @@
+import { HttpClient } from '@actions/http-client';
+import { promises as fs } from 'fs';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import * as path from 'path';
+import { gunzipSync } from 'zlib';
+import { formatBytes, uploadFile } from './upload';
+
+jest.mock('@actions/core');
+
+interface ReceivedRequest {
+  method?: string;
+  headers: http.IncomingHttpHeaders;
+  body: Buffer;
+}
+
+describe('Artifact Upload', () => {
+  const testDir = path.join(__dirname, '__test_upload__');
+  const filePath = path.join(testDir, 'manifest.json');
+  const content = JSON.stringify({ metadata: { adapter_type: 'postgres' }, nodes: {} });
+
+  let server: http.Server;
+  let uploadUrl: string;
+  let received: ReceivedRequest[];
+  let statusCode: number;
+
+  beforeEach(async () => {
+    await fs.mkdir(testDir, { recursive: true });
+    await fs.writeFile(filePath, content);
+
+    received = [];
+    statusCode = 200;
+    server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', (chunk: Buffer) => chunks.push(chunk));
+      req.on('end', () => {
+        received.push({ method: req.method, headers: req.headers, body: Buffer.concat(chunks) });
+        res.writeHead(statusCode);
+        res.end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    uploadUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/upload?signature=abc`;
+  });
+
+  afterEach(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should stream the file with an explicit Content-Length', async () => {
+    await uploadFile(new HttpClient('test'), filePath, uploadUrl);
+
+    expect(received).toHaveLength(1);
+    expect(received[0].method).toBe('PUT');
+    expect(received[0].headers['content-length']).toBe(String(Buffer.byteLength(content)));
+    expect(received[0].headers['content-encoding']).toBeUndefined();
+    expect(received[0].body.toString('utf8')).toBe(content);
+  });
+
+  it('should gzip the file when compression is negotiated', async () => {
+    const sent = await uploadFile(new HttpClient('test'), filePath, uploadUrl, 'gzip');
+
+    expect(sent).toBe(received[0].body.length);
+    expect(received[0].headers['content-encoding']).toBe('gzip');
+    expect(received[0].headers['content-length']).toBe(String(received[0].body.length));
+    expect(gunzipSync(received[0].body).toString('utf8')).toBe(content);
+  });
+
+  it('should fail on a non-2xx response', async () => {
+    statusCode = 403;
+
+    await expect(uploadFile(new HttpClient('test'), filePath, uploadUrl)).rejects.toThrow(
+      'Status: 403'
+    );
+  });
+
+  it('should close the file streams when the request fails', async () => {
+    const httpClient = new HttpClient('test');
+    const sendStream = jest
+      .spyOn(httpClient, 'sendStream')
+      .mockRejectedValue(new Error('socket hang up'));
+
+    await expect(uploadFile(httpClient, filePath, uploadUrl)).rejects.toThrow('socket hang up');
+
+    const [, , stream] = sendStream.mock.calls[0];
+    expect(stream.destroyed).toBe(true);
+  });
+
+  it('should format byte counts for logs', () => {
+    expect(formatBytes(512)).toBe('512 B');
+    expect(formatBytes(1536)).toBe('1.5 KB');
+    expect(formatBytes(400 * 1024 * 1024)).toBe('400.0 MB');
+  });
+});
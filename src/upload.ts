@@ -0,0 +1,141 @@
+import * as core from '@actions/core';
+import { createReadStream, createWriteStream, promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { createGzip } from 'zlib';
+import type { ReadStream } from 'fs';
+import type { OutgoingHttpHeaders } from 'http';
+import type { HttpClient } from '@actions/http-client';
+import { HttpStatusError } from './http';
+import type { UploadCompression } from './types';
+
+/**
+ * Minimum time between two progress log lines for a single upload
+ */
+const PROGRESS_INTERVAL_MS = 5000;
+
+/**
+ * Format a byte count for log output
+ * @param bytes - Number of bytes
+ * @returns Human readable size (e.g., '12.3 MB')
+ */
+export function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return unit === 0 ? `${value} ${units[unit]}` : `${value.toFixed(1)} ${units[unit]}`;
+}
+
+/**
+ * Create a pass-through stream that logs upload progress at intervals
+ * @param label - File name shown in the log
+ * @param totalBytes - Total number of bytes that will pass through
+ * @returns Transform stream reporting progress via core.info
+ */
+function createProgressStream(label: string, totalBytes: number): Transform {
+  let transferred = 0;
+  let lastLogAt = Date.now();
+
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      transferred += chunk.length;
+      const now = Date.now();
+      if (now - lastLogAt >= PROGRESS_INTERVAL_MS) {
+        lastLogAt = now;
+        const percent = totalBytes > 0 ? Math.floor((transferred / totalBytes) * 100) : 100;
+        core.info(
+          `[Uploading] ${label}: ${percent}% (${formatBytes(transferred)} / ${formatBytes(totalBytes)})`
+        );
+      }
+      callback(null, chunk);
+    }
+  });
+}
+
+/**
+ * Gzip a file into a temporary file
+ * @param filePath - Path to the file to compress
+ * @returns Path to the compressed temporary file
+ */
+async function gzipToTempFile(filePath: string): Promise<string> {
+  const tempDir = await fs.mkdtemp(path.join(process.env.RUNNER_TEMP || os.tmpdir(), 'recce-'));
+  const compressedPath = path.join(tempDir, `${path.basename(filePath)}.gz`);
+  await pipeline(createReadStream(filePath), createGzip(), createWriteStream(compressedPath));
+  return compressedPath;
+}
+
+/**
+ * Upload file to a presigned URL, streaming it from disk
+ * @param httpClient - HTTP client instance; it must not retry, since a consumed stream cannot be replayed
+ * @param filePath - Path to the file to upload
+ * @param uploadUrl - Presigned URL for upload
+ * @param compression - Compression negotiated with Recce Cloud for this upload
+ * @returns Number of bytes sent, after compression
+ * @throws HttpStatusError if upload fails
+ */
+export async function uploadFile(
+  httpClient: HttpClient,
+  filePath: string,
+  uploadUrl: string,
+  compression: UploadCompression = 'none'
+): Promise<number> {
+  const label = path.basename(filePath);
+  const bodyPath = compression === 'gzip' ? await gzipToTempFile(filePath) : filePath;
+  let source: ReadStream | undefined;
+  let progress: Transform | undefined;
+
+  try {
+    const { size } = await fs.stat(bodyPath);
+
+    // For presigned S3 URL uploads, you must include exactly the headers used when signing the URL.
+    // Adding headers not in the signature (like Content-Type) will cause a signature mismatch, but omitting required ones will also fail.
+    // Content-Length is always required for a streamed PUT, and Recce Cloud signs Content-Encoding when it negotiates gzip.
+    const headers: OutgoingHttpHeaders = { 'Content-Length': size };
+    if (compression === 'gzip') {
+      headers['Content-Encoding'] = 'gzip';
+    }
+
+    core.info(
+      `[Uploading] ${label} (${formatBytes(size)}${compression === 'gzip' ? ', gzip' : ''})...`
+    );
+
+    progress = createProgressStream(label, size);
+    source = createReadStream(bodyPath);
+    source.on('error', error => progress?.destroy(error));
+    source.pipe(progress);
+
+    const response = await httpClient.sendStream('PUT', uploadUrl, progress, headers);
+    // Always drain the response so the socket is released
+    const responseBody = await response.readBody();
+
+    if (
+      response.message.statusCode == null ||
+      response.message.statusCode < 200 ||
+      response.message.statusCode >= 300
+    ) {
+      // The body is kept on the error for diagnostics; storage error bodies can echo the signed request
+      throw new HttpStatusError(
+        `Failed to upload file: ${filePath}. Status: ${response.message.statusCode}`,
+        response.message.statusCode ?? 0,
+        response.message.headers['retry-after'],
+        responseBody
+      );
+    }
+
+    core.info(`[Done] ${label} uploaded.`);
+    return size;
+  } finally {
+    // A rejected request leaves the streams open; close them so retries do not leak file descriptors
+    source?.destroy();
+    progress?.destroy();
+    if (bodyPath !== filePath) {
+      await fs.rm(path.dirname(bodyPath), { recursive: true, force: true });
+    }
+  }
+}
@@ -0,0 +1,162 @@
+import * as core from '@actions/core';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { reportValidationIssues, validateDbtArtifacts } from './validation';
+import type { ValidationIssue } from './types';
+
+jest.mock('@actions/core');
+
+const mockedCore = core as jest.Mocked<typeof core>;
+
+describe('DBT Artifact Validation', () => {
+  const testDir = path.join(__dirname, '__test_validation__');
+
+  const manifest = {
+    metadata: {
+      adapter_type: 'postgres',
+      dbt_version: '1.7.0',
+      dbt_schema_version: 'https://schemas.getdbt.com/dbt/manifest/v11.json',
+      invocation_id: 'invocation-1',
+      generated_at: '2024-01-01T00:00:00Z'
+    },
+    nodes: {
+      'model.shop.orders': { resource_type: 'model', config: { materialized: 'table' } },
+      'model.shop.customers': { resource_type: 'model', config: { materialized: 'view' } },
+      'model.shop.helper': { resource_type: 'model', config: { materialized: 'ephemeral' } },
+      'test.shop.not_null': { resource_type: 'test', config: {} }
+    }
+  };
+
+  const catalog = {
+    metadata: {
+      dbt_schema_version: 'https://schemas.getdbt.com/dbt/catalog/v1.json',
+      invocation_id: 'invocation-1',
+      generated_at: '2024-01-01T00:01:00Z'
+    },
+    nodes: {
+      'model.shop.orders': {},
+      'model.shop.customers': {}
+    }
+  };
+
+  async function writeArtifacts(manifestContent: unknown, catalogContent: unknown): Promise<void> {
+    await fs.writeFile(path.join(testDir, 'manifest.json'), JSON.stringify(manifestContent));
+    await fs.writeFile(path.join(testDir, 'catalog.json'), JSON.stringify(catalogContent));
+  }
+
+  beforeEach(async () => {
+    await fs.mkdir(testDir, { recursive: true });
+
+    const mockSummary = {
+      addHeading: jest.fn().mockReturnThis(),
+      addTable: jest.fn().mockReturnThis(),
+      write: jest.fn().mockResolvedValue(undefined)
+    };
+    mockedCore.summary = mockSummary as unknown as typeof core.summary;
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  describe('validateDbtArtifacts', () => {
+    it('should report no issues for consistent artifacts', async () => {
+      await writeArtifacts(manifest, catalog);
+
+      await expect(validateDbtArtifacts(testDir)).resolves.toEqual([]);
+    });
+
+    it('should report truncated files as errors', async () => {
+      await fs.writeFile(path.join(testDir, 'manifest.json'), '{"metadata": {');
+      await fs.writeFile(path.join(testDir, 'catalog.json'), JSON.stringify(catalog));
+
+      const issues = await validateDbtArtifacts(testDir);
+
+      expect(issues).toHaveLength(1);
+      expect(issues[0].severity).toBe('error');
+      expect(issues[0].message).toContain('Failed to parse manifest.json');
+    });
+
+    it('should report unsupported manifest schema versions', async () => {
+      await writeArtifacts(
+        {
+          ...manifest,
+          metadata: {
+            ...manifest.metadata,
+            dbt_schema_version: 'https://schemas.getdbt.com/dbt/manifest/v3.json'
+          }
+        },
+        catalog
+      );
+
+      const issues = await validateDbtArtifacts(testDir);
+
+      expect(issues.map(issue => issue.title)).toEqual(['Unsupported manifest schema']);
+    });
+
+    it('should report a catalog from a different invocation', async () => {
+      await writeArtifacts(manifest, {
+        ...catalog,
+        metadata: { ...catalog.metadata, invocation_id: 'invocation-2' }
+      });
+
+      const issues = await validateDbtArtifacts(testDir);
+
+      expect(issues).toHaveLength(1);
+      expect(issues[0].title).toBe('Mismatched dbt artifacts');
+      expect(issues[0].severity).toBe('error');
+    });
+
+    it('should compare generated_at when invocation IDs are missing', async () => {
+      await writeArtifacts(
+        { ...manifest, metadata: { ...manifest.metadata, invocation_id: undefined } },
+        {
+          ...catalog,
+          metadata: { ...catalog.metadata, generated_at: '2024-01-02T00:00:00Z' }
+        }
+      );
+
+      const issues = await validateDbtArtifacts(testDir);
+
+      expect(issues.map(issue => issue.title)).toEqual(['Stale dbt artifacts']);
+    });
+
+    it('should report models missing from the catalog', async () => {
+      await writeArtifacts(manifest, { ...catalog, nodes: { 'model.shop.orders': {} } });
+
+      const issues = await validateDbtArtifacts(testDir);
+
+      expect(issues).toHaveLength(1);
+      expect(issues[0].severity).toBe('warning');
+      expect(issues[0].message).toContain('missing 1 of 2 models');
+      expect(issues[0].message).toContain('model.shop.customers');
+    });
+  });
+
+  describe('reportValidationIssues', () => {
+    const issues: ValidationIssue[] = [
+      { file: 'target/catalog.json', severity: 'error', title: 'Mismatch', message: 'error issue' },
+      { file: 'target/catalog.json', severity: 'warning', title: 'Coverage', message: 'warn issue' }
+    ];
+
+    it('should annotate errors and fail in strict mode', async () => {
+      await expect(reportValidationIssues(issues, 'strict')).rejects.toThrow(
+        'validation failed with 1 error(s)'
+      );
+      expect(mockedCore.error).toHaveBeenCalledWith('error issue', {
+        title: 'Mismatch',
+        file: 'target/catalog.json'
+      });
+      expect(mockedCore.warning).toHaveBeenCalledWith('warn issue', {
+        title: 'Coverage',
+        file: 'target/catalog.json'
+      });
+    });
+
+    it('should only warn in warn mode', async () => {
+      await expect(reportValidationIssues(issues, 'warn')).resolves.toBeUndefined();
+      expect(mockedCore.warning).toHaveBeenCalledTimes(2);
+      expect(mockedCore.error).not.toHaveBeenCalled();
+    });
+  });
+});
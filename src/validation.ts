@@ -0,0 +1,283 @@
+import * as core from '@actions/core';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { DbtCatalog, DbtManifest, ValidationIssue, ValidationMode } from './types';
+
+/**
+ * Oldest and newest manifest schema versions known to work with Recce Cloud
+ * (v4 is dbt 1.0, v12 is dbt 1.8+)
+ */
+const MIN_MANIFEST_SCHEMA_VERSION = 4;
+const MAX_MANIFEST_SCHEMA_VERSION = 12;
+
+/**
+ * Catalog schema version produced by all supported dbt versions
+ */
+const CATALOG_SCHEMA_VERSION = 1;
+
+/**
+ * Maximum gap between manifest and catalog generation when invocation IDs are unavailable
+ */
+const MAX_GENERATED_AT_GAP_MS = 60 * 60 * 1000;
+
+/**
+ * Number of uncovered model IDs listed in a coverage issue
+ */
+const MAX_LISTED_MODELS = 5;
+
+/**
+ * Extract the schema version number from a dbt_schema_version URL
+ * @param schemaVersion - Schema URL (e.g., 'https://schemas.getdbt.com/dbt/manifest/v12.json')
+ * @param artifact - Artifact name in the schema URL ('manifest' or 'catalog')
+ * @returns The version number, or undefined if the URL is not recognized
+ */
+function parseSchemaVersion(
+  schemaVersion: string | undefined,
+  artifact: string
+): number | undefined {
+  if (!schemaVersion) {
+    return undefined;
+  }
+  const match = new RegExp(`/${artifact}/v(\\d+)\\.json$`).exec(schemaVersion);
+  return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * Read and parse a JSON artifact, recording an issue if it cannot be parsed
+ * @param filePath - Path to the JSON file
+ * @param issues - Issue list to append to
+ * @returns The parsed artifact, or undefined on failure
+ */
+async function readArtifact<T>(
+  filePath: string,
+  issues: ValidationIssue[]
+): Promise<T | undefined> {
+  try {
+    const content = await fs.readFile(filePath, 'utf8');
+    const parsed = JSON.parse(content) as T;
+    if (parsed === null || typeof parsed !== 'object') {
+      throw new Error('expected a JSON object');
+    }
+    return parsed;
+  } catch (error) {
+    issues.push({
+      file: filePath,
+      severity: 'error',
+      title: 'Invalid dbt artifact',
+      message: `Failed to parse ${path.basename(filePath)}: ${error instanceof Error ? error.message : String(error)}. The file may be truncated or corrupted.`
+    });
+    return undefined;
+  }
+}
+
+/**
+ * Check the dbt_schema_version of both artifacts
+ * @param manifest - Parsed manifest.json
+ * @param catalog - Parsed catalog.json
+ * @param manifestPath - Path to manifest.json
+ * @param catalogPath - Path to catalog.json
+ * @param issues - Issue list to append to
+ */
+function checkSchemaVersions(
+  manifest: DbtManifest,
+  catalog: DbtCatalog,
+  manifestPath: string,
+  catalogPath: string,
+  issues: ValidationIssue[]
+): void {
+  const manifestSchema = manifest.metadata?.dbt_schema_version;
+  const manifestVersion = parseSchemaVersion(manifestSchema, 'manifest');
+
+  if (manifestVersion === undefined) {
+    issues.push({
+      file: manifestPath,
+      severity: 'error',
+      title: 'Unknown manifest schema',
+      message: `manifest.json has an unrecognized dbt_schema_version '${manifestSchema ?? ''}'.`
+    });
+  } else if (manifestVersion < MIN_MANIFEST_SCHEMA_VERSION) {
+    issues.push({
+      file: manifestPath,
+      severity: 'error',
+      title: 'Unsupported manifest schema',
+      message: `manifest.json uses schema v${manifestVersion}, but Recce Cloud requires v${MIN_MANIFEST_SCHEMA_VERSION} (dbt 1.0) or later.`
+    });
+  } else if (manifestVersion > MAX_MANIFEST_SCHEMA_VERSION) {
+    issues.push({
+      file: manifestPath,
+      severity: 'warning',
+      title: 'Untested manifest schema',
+      message: `manifest.json uses schema v${manifestVersion}, which is newer than the latest version known to this action (v${MAX_MANIFEST_SCHEMA_VERSION}).`
+    });
+  }
+
+  const catalogSchema = catalog.metadata?.dbt_schema_version;
+  const catalogVersion = parseSchemaVersion(catalogSchema, 'catalog');
+
+  if (catalogVersion === undefined) {
+    issues.push({
+      file: catalogPath,
+      severity: 'error',
+      title: 'Unknown catalog schema',
+      message: `catalog.json has an unrecognized dbt_schema_version '${catalogSchema ?? ''}'.`
+    });
+  } else if (catalogVersion !== CATALOG_SCHEMA_VERSION) {
+    issues.push({
+      file: catalogPath,
+      severity: 'warning',
+      title: 'Untested catalog schema',
+      message: `catalog.json uses schema v${catalogVersion}, but this action expects v${CATALOG_SCHEMA_VERSION}.`
+    });
+  }
+}
+
+/**
+ * Check that the manifest and catalog were produced by the same dbt invocation
+ * @param manifest - Parsed manifest.json
+ * @param catalog - Parsed catalog.json
+ * @param catalogPath - Path to catalog.json
+ * @param issues - Issue list to append to
+ */
+function checkSameInvocation(
+  manifest: DbtManifest,
+  catalog: DbtCatalog,
+  catalogPath: string,
+  issues: ValidationIssue[]
+): void {
+  const manifestInvocation = manifest.metadata?.invocation_id;
+  const catalogInvocation = catalog.metadata?.invocation_id;
+
+  if (manifestInvocation && catalogInvocation) {
+    if (manifestInvocation !== catalogInvocation) {
+      issues.push({
+        file: catalogPath,
+        severity: 'error',
+        title: 'Mismatched dbt artifacts',
+        message: `catalog.json (invocation ${catalogInvocation}) was not generated by the same dbt invocation as manifest.json (invocation ${manifestInvocation}). Run \`dbt docs generate\` to regenerate both files together.`
+      });
+    }
+    return;
+  }
+
+  const manifestGeneratedAt = Date.parse(manifest.metadata?.generated_at ?? '');
+  const catalogGeneratedAt = Date.parse(catalog.metadata?.generated_at ?? '');
+
+  if (
+    !Number.isNaN(manifestGeneratedAt) &&
+    !Number.isNaN(catalogGeneratedAt) &&
+    Math.abs(manifestGeneratedAt - catalogGeneratedAt) > MAX_GENERATED_AT_GAP_MS
+  ) {
+    issues.push({
+      file: catalogPath,
+      severity: 'warning',
+      title: 'Stale dbt artifacts',
+      message: `catalog.json was generated at ${catalog.metadata.generated_at}, more than an hour apart from manifest.json (${manifest.metadata.generated_at}).`
+    });
+  }
+}
+
+/**
+ * Check that the catalog contains the non-ephemeral models defined in the manifest
+ * @param manifest - Parsed manifest.json
+ * @param catalog - Parsed catalog.json
+ * @param catalogPath - Path to catalog.json
+ * @param issues - Issue list to append to
+ */
+function checkCatalogCoverage(
+  manifest: DbtManifest,
+  catalog: DbtCatalog,
+  catalogPath: string,
+  issues: ValidationIssue[]
+): void {
+  const catalogNodes = catalog.nodes ?? {};
+  const modelIds = Object.entries(manifest.nodes ?? {})
+    .filter(
+      ([, node]) => node.resource_type === 'model' && node.config?.materialized !== 'ephemeral'
+    )
+    .map(([uniqueId]) => uniqueId);
+
+  const missing = modelIds.filter(uniqueId => !(uniqueId in catalogNodes));
+
+  if (missing.length === 0) {
+    return;
+  }
+
+  const listed = missing.slice(0, MAX_LISTED_MODELS).join(', ');
+  const more =
+    missing.length > MAX_LISTED_MODELS ? ` and ${missing.length - MAX_LISTED_MODELS} more` : '';
+
+  issues.push({
+    file: catalogPath,
+    severity: missing.length === modelIds.length ? 'error' : 'warning',
+    title: 'Incomplete catalog',
+    message: `catalog.json is missing ${missing.length} of ${modelIds.length} models from manifest.json (${listed}${more}). Column information will be unavailable for these models.`
+  });
+}
+
+/**
+ * Parse manifest.json and catalog.json and check that they are complete and consistent
+ * @param dbtTargetPath - Path to the DBT target directory
+ * @returns Problems found in the artifacts
+ */
+export async function validateDbtArtifacts(dbtTargetPath: string): Promise<ValidationIssue[]> {
+  const manifestPath = path.join(dbtTargetPath, 'manifest.json');
+  const catalogPath = path.join(dbtTargetPath, 'catalog.json');
+  const issues: ValidationIssue[] = [];
+
+  const manifest = await readArtifact<DbtManifest>(manifestPath, issues);
+  const catalog = await readArtifact<DbtCatalog>(catalogPath, issues);
+
+  if (!manifest || !catalog) {
+    return issues;
+  }
+
+  checkSchemaVersions(manifest, catalog, manifestPath, catalogPath, issues);
+  checkSameInvocation(manifest, catalog, catalogPath, issues);
+  checkCatalogCoverage(manifest, catalog, catalogPath, issues);
+
+  return issues;
+}
+
+/**
+ * Report validation problems as GitHub annotations and in the job summary
+ * @param issues - Problems found in the artifacts
+ * @param mode - Validation mode; in strict mode errors fail the action
+ * @throws Error in strict mode if any issue is an error
+ */
+export async function reportValidationIssues(
+  issues: ValidationIssue[],
+  mode: ValidationMode
+): Promise<void> {
+  if (issues.length === 0) {
+    core.info('[Done] DBT artifacts validated.');
+    return;
+  }
+
+  for (const issue of issues) {
+    const properties = { title: issue.title, file: issue.file };
+    if (mode === 'strict' && issue.severity === 'error') {
+      core.error(issue.message, properties);
+    } else {
+      core.warning(issue.message, properties);
+    }
+  }
+
+  await core.summary
+    .addHeading('Recce Cloud CI/CD Action Validation', 3)
+    .addTable([
+      [
+        { data: 'Severity', header: true },
+        { data: 'File', header: true },
+        { data: 'Issue', header: true }
+      ],
+      ...issues.map(issue => [issue.severity, path.basename(issue.file), issue.message])
+    ])
+    .write();
+
+  const errorCount = issues.filter(issue => issue.severity === 'error').length;
+  if (mode === 'strict' && errorCount > 0) {
+    throw new Error(
+      `[Error] DBT artifact validation failed with ${errorCount} error(s). Set validation_mode to 'warn' to upload anyway.`
+    );
+  }
+}
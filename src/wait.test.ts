@@ -0,0 +1,78 @@
+import type { RecceCloudClient } from './client';
+import { waitForSessionReady } from './wait';
+
+jest.mock('@actions/core');
+
+describe('Session Processing', () => {
+  let clock: number;
+  let waits: number[];
+  const now = (): number => clock;
+  const wait = (ms: number): Promise<void> => {
+    waits.push(ms);
+    clock += ms;
+    return Promise.resolve();
+  };
+
+  const clientWithStatuses = (
+    ...statuses: Array<{ status: string; message?: string }>
+  ): RecceCloudClient => {
+    const getSessionStatus = jest.fn();
+    for (const status of statuses) {
+      getSessionStatus.mockResolvedValueOnce(status);
+    }
+    getSessionStatus.mockResolvedValue(statuses[statuses.length - 1]);
+    return { getSessionStatus } as unknown as RecceCloudClient;
+  };
+
+  beforeEach(() => {
+    clock = 0;
+    waits = [];
+  });
+
+  it('should poll until the session is ready', async () => {
+    const client = clientWithStatuses(
+      { status: 'processing' },
+      { status: 'processing' },
+      { status: 'ready' }
+    );
+
+    await expect(waitForSessionReady(client, 'session-1', 60, wait, now)).resolves.toEqual({
+      state: 'ready',
+      status: 'ready',
+      message: undefined,
+      durationSeconds: 10
+    });
+    expect(waits).toEqual([5000, 5000]);
+  });
+
+  it('should stop on a processing error', async () => {
+    const client = clientWithStatuses({ status: 'FAILED', message: 'catalog.json is corrupt' });
+
+    await expect(waitForSessionReady(client, 'session-1', 60, wait, now)).resolves.toMatchObject({
+      state: 'failed',
+      message: 'catalog.json is corrupt'
+    });
+    expect(waits).toEqual([]);
+  });
+
+  it('should give up after the timeout', async () => {
+    const client = clientWithStatuses({ status: 'processing' });
+
+    await expect(waitForSessionReady(client, 'session-1', 12, wait, now)).resolves.toEqual({
+      state: 'timeout',
+      status: 'processing',
+      message: undefined,
+      durationSeconds: 10
+    });
+  });
+
+  it('should propagate status request failures', async () => {
+    const client = {
+      getSessionStatus: jest.fn().mockRejectedValue(new Error('Request failed. HTTP Status: 404'))
+    } as unknown as RecceCloudClient;
+
+    await expect(waitForSessionReady(client, 'session-1', 60, wait, now)).rejects.toThrow(
+      'HTTP Status: 404'
+    );
+  });
+});
@@ -0,0 +1,78 @@
+import * as core from '@actions/core';
+import type { RecceCloudClient } from './client';
+import type { SessionWaitResult } from './types';
+
+/**
+ * Delay between two session status requests
+ */
+const POLL_INTERVAL_MS = 5 * 1000;
+
+/**
+ * Session statuses meaning Recce Cloud finished processing the artifacts
+ */
+const READY_STATUSES = ['ready', 'completed', 'succeeded'];
+
+/**
+ * Session statuses meaning Recce Cloud failed to process the artifacts
+ */
+const FAILED_STATUSES = ['failed', 'error'];
+
+/**
+ * Sleep for a given number of milliseconds
+ * @param ms - Milliseconds to sleep
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Poll the session status until Recce Cloud has processed the uploaded artifacts
+ * @param client - Recce Cloud API client
+ * @param sessionId - Session ID returned by touch-recce-session
+ * @param timeoutSeconds - Maximum time to wait
+ * @param wait - Sleep implementation (overridable for tests)
+ * @param now - Clock implementation (overridable for tests)
+ * @returns The final status and how long processing took
+ * @throws RecceApiError if the status cannot be retrieved
+ */
+export async function waitForSessionReady(
+  client: RecceCloudClient,
+  sessionId: string,
+  timeoutSeconds: number,
+  wait: (ms: number) => Promise<void> = sleep,
+  now: () => number = Date.now
+): Promise<SessionWaitResult> {
+  const startedAt = now();
+  const elapsedSeconds = (): number => Math.round((now() - startedAt) / 1000);
+
+  core.info(
+    `[Wait] Waiting up to ${timeoutSeconds}s for Recce Cloud to process session ${sessionId}...`
+  );
+
+  for (;;) {
+    const { status, message } = await client.getSessionStatus(sessionId);
+    const normalized = status.toLowerCase();
+
+    if (READY_STATUSES.includes(normalized)) {
+      core.info(`[Done] Session ${sessionId} is ${status} after ${elapsedSeconds()}s.`);
+      return { state: 'ready', status, message, durationSeconds: elapsedSeconds() };
+    }
+
+    if (FAILED_STATUSES.includes(normalized)) {
+      core.error(
+        `[Error] Recce Cloud failed to process session ${sessionId}: ${message ?? status}`
+      );
+      return { state: 'failed', status, message, durationSeconds: elapsedSeconds() };
+    }
+
+    if (now() - startedAt + POLL_INTERVAL_MS > timeoutSeconds * 1000) {
+      core.error(
+        `[Error] Session ${sessionId} was still ${status} after ${elapsedSeconds()}s. Increase wait_timeout to wait longer.`
+      );
+      return { state: 'timeout', status, message, durationSeconds: elapsedSeconds() };
+    }
+
+    core.info(`[Wait] Session ${sessionId} is ${status} (${elapsedSeconds()}s elapsed)...`);
+    await wait(POLL_INTERVAL_MS);
+  }
+}